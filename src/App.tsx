@@ -1,6 +1,20 @@
-import React from 'react';
+import { useEffect } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ChatContainer } from './components/chat/ChatContainer';
+import { ConversationList } from './components/conversation/ConversationList';
+import { ToastContainer } from './components/common/ToastContainer';
+import { TransportContext } from './api/TransportContext';
+import { UnfurlContext } from './api/UnfurlContext';
+import { I18nProvider } from './i18n/I18nProvider';
+import { MockTransport } from './api/transport';
+import { StubUnfurlService } from './api/unfurl';
+import { useChatStore } from './store/chatStore';
+import { useOutboxStore } from './store/outboxStore';
+import { usePresenceStore } from './store/presenceStore';
+import { useHashRoute } from './hooks/useHashRoute';
+import { useStoreHydrated } from './hooks/useStoreHydrated';
+import { useTransport } from './hooks/useTransport';
+import { useOutboxProcessor } from './hooks/useOutboxProcessor';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -11,14 +25,102 @@ const queryClient = new QueryClient({
   },
 });
 
+// 실제 백엔드 연결 시 ChatTransport 구현체로 교체
+const chatTransport = new MockTransport();
+
+// 링크 미리보기 서버가 있으면 HttpUnfurlService로 교체
+const unfurlService = new StubUnfurlService();
+
+function ChatRoutes() {
+  const { route, navigate } = useHashRoute();
+  const transport = useTransport();
+  const conversationExists = useChatStore((state) =>
+    route.name === 'chat' ? Boolean(state.conversations[route.conversationId]) : true
+  );
+
+  useOutboxProcessor();
+
+  // 서버에서 들어오는 메시지, 수신 확인, 입력 중 알림은 열려 있지 않은 대화에도 반영
+  useEffect(() => {
+    return transport.subscribe((event) => {
+      const { addMessage, advanceDeliveryStatus, markReadUpTo, addReaction, removeReaction } = useChatStore.getState();
+      switch (event.type) {
+        case 'message':
+          // 메시지가 도착하면 보낸 사람의 입력 중 표시는 끝난 것
+          usePresenceStore.getState().setTyping(event.conversationId, event.message.sender, false);
+          addMessage(event.conversationId, event.message);
+          break;
+        case 'delivery':
+          advanceDeliveryStatus(event.conversationId, event.messageId, event.status);
+          break;
+        case 'read':
+          markReadUpTo(event.conversationId, event.participantId, event.messageId);
+          break;
+        case 'typing':
+          usePresenceStore.getState().setTyping(event.conversationId, event.participantId, event.isTyping);
+          break;
+        case 'reaction':
+          // 내가 보낸 반응은 이미 반영되어 있어 되돌아와도 그대로
+          (event.action === 'add' ? addReaction : removeReaction)(
+            event.conversationId,
+            event.messageId,
+            event.emoji,
+            event.participantId
+          );
+          break;
+      }
+    });
+  }, [transport]);
+
+  // 삭제되었거나 없는 대화로 들어오면 목록으로
+  useEffect(() => {
+    if (!conversationExists) {
+      navigate({ name: 'conversations' });
+    }
+  }, [conversationExists, navigate]);
+
+  if (route.name === 'chat' && conversationExists) {
+    return (
+      <ChatContainer
+        key={route.conversationId}
+        conversationId={route.conversationId}
+        onBack={() => navigate({ name: 'conversations' })}
+      />
+    );
+  }
+
+  return (
+    <ConversationList
+      onSelect={(conversationId) => navigate({ name: 'chat', conversationId })}
+    />
+  );
+}
+
 function App() {
+  const hasChatHydrated = useStoreHydrated(useChatStore);
+  const hasOutboxHydrated = useStoreHydrated(useOutboxStore);
+  const hasHydrated = hasChatHydrated && hasOutboxHydrated;
+  
   return (
     <QueryClientProvider client={queryClient}>
-      <div className="fixed inset-0 overflow-hidden">
-        <ChatContainer />
-      </div>
+      <I18nProvider>
+        <TransportContext.Provider value={chatTransport}>
+          <UnfurlContext.Provider value={unfurlService}>
+            <div className="fixed inset-0 overflow-hidden">
+              {hasHydrated ? (
+                <ChatRoutes />
+              ) : (
+                <div className="flex h-full items-center justify-center">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+                </div>
+              )}
+              <ToastContainer />
+            </div>
+          </UnfurlContext.Provider>
+        </TransportContext.Provider>
+      </I18nProvider>
     </QueryClientProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
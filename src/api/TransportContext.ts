@@ -0,0 +1,7 @@
+import { createContext } from 'react';
+import { MockTransport, type ChatTransport } from './transport';
+
+/**
+ * Provider 없이 렌더링될 때는 MockTransport를 사용
+ */
+export const TransportContext = createContext<ChatTransport>(new MockTransport());
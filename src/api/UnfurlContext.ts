@@ -0,0 +1,7 @@
+import { createContext } from 'react';
+import { StubUnfurlService, type UnfurlService } from './unfurl';
+
+/**
+ * Provider 없이 렌더링될 때는 StubUnfurlService를 사용
+ */
+export const UnfurlContext = createContext<UnfurlService>(new StubUnfurlService());
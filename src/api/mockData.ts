@@ -59,10 +59,13 @@ export const loadMoreMessages = (beforeId: string): Promise<Message[]> => {
   });
 };
 
+/** 동시에 여러 메시지를 받아도 겹치지 않는 서버 id */
+let serverMessageSequence = 0;
+
 export const sendMessage = (content: string): Promise<Message> => {
   return new Promise((resolve) => {
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: `server-${Date.now()}-${++serverMessageSequence}`,
       content,
       sender: 'user',
       timestamp: new Date(),
@@ -75,26 +78,50 @@ export const sendMessage = (content: string): Promise<Message> => {
   });
 };
 
-export const getAssistantResponse = (userMessage: string): Promise<Message> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      const responses = [
-        '네, 알겠습니다.',
-        '좋은 질문이네요!',
-        '더 자세히 설명해 주시겠어요?',
-        '그것에 대해 도움을 드릴 수 있습니다.',
-        '흥미로운 주제네요.',
-      ];
-      
-      const response: Message = {
-        id: (Date.now() + 1).toString(),
-        content: responses[Math.floor(Math.random() * responses.length)],
-        sender: 'assistant',
-        timestamp: new Date(),
-        status: 'delivered',
-      };
-      
-      resolve(response);
-    }, 1500);
-  });
-};
\ No newline at end of file
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 어시스턴트 응답을 토큰 단위로 흘려보내는 모의 스트림
+ * signal이 중단되면 남은 토큰을 보내지 않고 종료
+ */
+export async function* streamAssistantResponse(
+  userMessage: string,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const responses = [
+    '네, 알겠습니다. 요청하신 내용을 바탕으로 차근차근 정리해 드릴게요.',
+    '좋은 질문이네요! 이 주제는 여러 관점에서 살펴볼 수 있습니다.',
+    '더 자세히 설명해 주시겠어요? 상황을 조금 더 알면 정확하게 도와드릴 수 있어요.',
+    '그것에 대해 도움을 드릴 수 있습니다. 먼저 핵심부터 말씀드리면 다음과 같아요.',
+    '흥미로운 주제네요. 관련된 내용을 하나씩 짚어 보겠습니다.',
+    [
+      '## 요약',
+      '',
+      '핵심만 **간단히** 정리하면 다음과 같습니다.',
+      '',
+      '1. 문제를 작은 단위로 나누기',
+      '2. 각 단위를 `함수`로 분리하기',
+      '',
+      '| 항목 | 설명 |',
+      '| --- | --- |',
+      '| 입력 | 사용자 메시지 |',
+      '| 출력 | 어시스턴트 응답 |',
+      '',
+      '```ts',
+      'const reply = await transport.send(message);',
+      '```',
+    ].join('\n'),
+  ];
+  const response = `"${userMessage}"에 대한 답변입니다.\n\n${
+    responses[Math.floor(Math.random() * responses.length)]
+  }`;
+  const tokens = response.match(/\S+\s*/g) ?? [];
+
+  await delay(800);
+
+  for (const token of tokens) {
+    if (signal?.aborted) return;
+    yield token;
+    await delay(80);
+  }
+}
@@ -0,0 +1,104 @@
+import type { ChatTransport } from './transport';
+import type { Message } from '../types/chat';
+import { useChatStore } from '../store/chatStore';
+import { createId } from '../utils/id';
+import { getThread } from '../utils/messageTree';
+
+/** 첨부 파일만 보낸 경우 어시스턴트에 전달할 프롬프트 */
+export const ATTACHMENT_ONLY_PROMPT = '첨부 파일';
+
+interface StreamReplyOptions {
+  /** 지정하면 응답을 이 메시지 아래 새 갈래로 만들고 그 갈래를 보여준다 (null이면 첫 메시지 자리) */
+  parentId?: string | null;
+  /**
+   * 지정하면 응답을 이 메시지 바로 뒤에 잇는다 (보낸 메시지에 대한 응답)
+   * 응답을 기다리는 사이 보낸 메시지는 응답 뒤로 옮겨져 다른 버전이 되지 않는다
+   */
+  afterId?: string;
+}
+
+/** 대화별로 진행 중인 응답 스트림. 메시지를 연달아 보내면 여러 응답이 동시에 진행된다 */
+const controllers = new Map<string, Set<AbortController>>();
+
+/**
+ * 어시스턴트 응답을 스트리밍해 첫 청크에서 메시지를 만들고 이후 청크를 이어 붙인다
+ * 첫 청크 전의 입력 중 표시는 transport의 typing 이벤트로 따로 전달된다
+ * 컴포넌트 수명과 무관하게 진행되므로 화면을 벗어나도 응답이 끝까지 저장됨
+ */
+export async function streamAssistantReply(
+  transport: ChatTransport,
+  conversationId: string,
+  prompt: string,
+  { parentId, afterId }: StreamReplyOptions = {}
+): Promise<void> {
+  const { addMessage, updateMessage, appendMessageContent, selectBranch, setStreaming } = useChatStore.getState();
+
+  const controller = new AbortController();
+  const active = controllers.get(conversationId) ?? new Set();
+  active.add(controller);
+  controllers.set(conversationId, active);
+  setStreaming(conversationId, true);
+
+  const replyId = createId();
+  let hasStarted = false;
+
+  try {
+    for await (const chunk of transport.streamReply(conversationId, prompt, controller.signal)) {
+      if (!hasStarted) {
+        hasStarted = true;
+        const reply: Message = {
+          id: replyId,
+          content: chunk,
+          sender: 'assistant',
+          timestamp: new Date(),
+          status: 'streaming',
+          ...(parentId !== undefined && { parentId }),
+        };
+        addMessage(conversationId, reply, afterId);
+        if (parentId !== undefined) {
+          selectBranch(conversationId, replyId);
+        }
+      } else {
+        appendMessageContent(conversationId, replyId, chunk);
+      }
+    }
+  } catch (error) {
+    // 사용자가 중단한 경우는 오류가 아님
+    if (!controller.signal.aborted) {
+      console.error('Failed to stream reply:', error);
+    }
+  } finally {
+    if (hasStarted) {
+      updateMessage(conversationId, replyId, { status: 'delivered' });
+    }
+    active.delete(controller);
+    if (active.size === 0 && controllers.get(conversationId) === active) {
+      controllers.delete(conversationId);
+      setStreaming(conversationId, false);
+    }
+  }
+}
+
+export function stopAssistantReply(conversationId: string): void {
+  controllers.get(conversationId)?.forEach((controller) => controller.abort());
+}
+
+/**
+ * 어시스턴트 응답을 앞의 사용자 메시지에 대해 다시 받는다
+ * 이전 응답은 지우지 않고 같은 자리의 다른 버전으로 남는다
+ */
+export function regenerateAssistantReply(
+  transport: ChatTransport,
+  conversationId: string,
+  reply: Message
+): Promise<void> {
+  const { messages, branches } = useChatStore.getState();
+  const thread = getThread(messages[conversationId] ?? [], branches[conversationId]);
+  const index = thread.findIndex((message) => message.id === reply.id);
+  const prompt = thread.slice(0, Math.max(index, 0)).reverse().find((message) => message.sender === 'user');
+  if (!prompt) return Promise.resolve();
+
+  return streamAssistantReply(transport, conversationId, prompt.content || ATTACHMENT_ONLY_PROMPT, {
+    parentId: reply.parentId ?? null,
+  });
+}
@@ -0,0 +1,162 @@
+import type { Attachment, DeliveryStatus, Message } from '../types/chat';
+import {
+  getInitialMessages,
+  loadMoreMessages,
+  sendMessage,
+  streamAssistantResponse,
+} from './mockData';
+
+/** 어시스턴트의 참여자 id (수신 확인, 입력 중 표시) */
+export const ASSISTANT_PARTICIPANT_ID = 'assistant';
+
+/** 이 기기 사용자의 참여자 id (메시지의 sender와 같다) */
+export const USER_PARTICIPANT_ID = 'user';
+
+/**
+ * 서버에서 전달되는 이벤트
+ * - message: 새 메시지 수신
+ * - delivery: 보낸 메시지가 상대 기기에 도착
+ * - read: 참여자가 messageId까지 읽음
+ * - typing: 참여자가 입력을 시작/중단
+ * - reaction: 참여자가 메시지에 반응을 추가/취소 (내가 보낸 반응도 되돌아온다)
+ */
+export type TransportEvent =
+  | { type: 'message'; conversationId: string; message: Message }
+  | { type: 'delivery'; conversationId: string; messageId: string; status: DeliveryStatus }
+  | { type: 'read'; conversationId: string; participantId: string; messageId: string }
+  | { type: 'typing'; conversationId: string; participantId: string; isTyping: boolean }
+  | {
+      type: 'reaction';
+      conversationId: string;
+      messageId: string;
+      participantId: string;
+      emoji: string;
+      action: ReactionAction;
+    };
+
+export type ReactionAction = 'add' | 'remove';
+
+export type TransportListener = (event: TransportEvent) => void;
+
+/**
+ * 전송할 메시지 본문
+ */
+export interface OutgoingMessage {
+  /** 로컬 메시지 id. 서버는 응답에 그대로 돌려주고 자신의 id를 새로 부여한다 */
+  clientId: string;
+  content: string;
+  attachments?: Attachment[];
+}
+
+/**
+ * UI가 백엔드와 통신하기 위한 추상화
+ * 실제 서버 구현이나 테스트용 가짜 구현으로 교체할 수 있다
+ */
+export interface ChatTransport {
+  /**
+   * 메시지를 전송하고 서버가 수락한 메시지('sent', 서버 id)를 반환
+   * 이후 상태 변화는 서버 id로 이벤트를 통해 전달된다
+   */
+  send(conversationId: string, message: OutgoingMessage): Promise<Message>;
+  /** 어시스턴트 응답을 청크 단위로 스트리밍. signal로 생성 중단 */
+  streamReply(conversationId: string, content: string, signal?: AbortSignal): AsyncIterable<string>;
+  /** 히스토리 한 페이지를 가져온다. beforeId가 없으면 최신 페이지 */
+  fetchHistory(conversationId: string, beforeId?: string): Promise<Message[]>;
+  /** 내가 입력 중임을 알린다. 응답을 기다리지 않음 */
+  sendTyping(conversationId: string, isTyping: boolean): void;
+  /** 메시지에 반응을 추가/취소. 서버가 반영하면 reaction 이벤트로 모든 참여자에게 전달된다 */
+  sendReaction(conversationId: string, messageId: string, emoji: string, action: ReactionAction): Promise<void>;
+  /** 수신 이벤트 구독. 구독 해제 함수를 반환 */
+  subscribe(listener: TransportListener): () => void;
+}
+
+/** 모의 수신 확인 지연 범위 (ms) */
+const MOCK_DELIVERY_DELAY_MS = [300, 800] as const;
+const MOCK_READ_DELAY_MS = [500, 1500] as const;
+const MOCK_REACTION_ECHO_DELAY_MS = [100, 400] as const;
+
+const randomDelay = ([min, max]: readonly [number, number]) => min + Math.random() * (max - min);
+
+/**
+ * mockData 함수를 감싼 기본 구현 (데모용)
+ */
+export class MockTransport implements ChatTransport {
+  private listeners: Set<TransportListener> = new Set();
+
+  async send(conversationId: string, message: OutgoingMessage): Promise<Message> {
+    if (!navigator.onLine) {
+      throw new Error('Network is offline');
+    }
+    const sent = await sendMessage(message.content);
+    this.simulateReceipts(conversationId, sent.id);
+    return { ...sent, clientId: message.clientId, attachments: message.attachments };
+  }
+
+  /**
+   * 첫 청크가 나오기 전까지 어시스턴트가 입력 중인 것으로 알린다
+   */
+  async *streamReply(conversationId: string, content: string, signal?: AbortSignal): AsyncIterable<string> {
+    let isTyping = true;
+    this.emitTyping(conversationId, true);
+    try {
+      for await (const chunk of streamAssistantResponse(content, signal)) {
+        if (isTyping) {
+          isTyping = false;
+          this.emitTyping(conversationId, false);
+        }
+        yield chunk;
+      }
+    } finally {
+      if (isTyping) {
+        this.emitTyping(conversationId, false);
+      }
+    }
+  }
+
+  // 모의 서버에는 상대가 없으므로 보내지 않는다
+  sendTyping(): void {}
+
+  /**
+   * 실제 서버처럼 반영한 반응을 보낸 사람에게도 이벤트로 돌려준다
+   */
+  async sendReaction(conversationId: string, messageId: string, emoji: string, action: ReactionAction): Promise<void> {
+    if (!navigator.onLine) {
+      throw new Error('Network is offline');
+    }
+    setTimeout(() => {
+      this.emit({ type: 'reaction', conversationId, messageId, participantId: USER_PARTICIPANT_ID, emoji, action });
+    }, randomDelay(MOCK_REACTION_ECHO_DELAY_MS));
+  }
+
+  fetchHistory(_conversationId: string, beforeId?: string): Promise<Message[]> {
+    return beforeId ? loadMoreMessages(beforeId) : getInitialMessages();
+  }
+
+  subscribe(listener: TransportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: TransportEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  private emitTyping(conversationId: string, isTyping: boolean) {
+    this.emit({ type: 'typing', conversationId, participantId: ASSISTANT_PARTICIPANT_ID, isTyping });
+  }
+
+  /**
+   * 어시스턴트 쪽에 도착 → 읽음 확인을 시차를 두고 보낸다
+   */
+  private simulateReceipts(conversationId: string, messageId: string) {
+    const deliveredAfter = randomDelay(MOCK_DELIVERY_DELAY_MS);
+    setTimeout(() => {
+      this.emit({ type: 'delivery', conversationId, messageId, status: 'delivered' });
+    }, deliveredAfter);
+    setTimeout(() => {
+      this.emit({ type: 'read', conversationId, participantId: ASSISTANT_PARTICIPANT_ID, messageId });
+    }, deliveredAfter + randomDelay(MOCK_READ_DELAY_MS));
+  }
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StubUnfurlService, parseLinkPreview } from './unfurl';
+
+describe('parseLinkPreview', () => {
+  const url = 'https://example.com/posts/hello-world';
+
+  it('reads Open Graph fields and resolves relative images against the page', () => {
+    expect(
+      parseLinkPreview(url, { title: ' Hello ', description: 'A post', image: '/cover.png', siteName: 'Example' })
+    ).toEqual({
+      url,
+      title: 'Hello',
+      description: 'A post',
+      imageUrl: 'https://example.com/cover.png',
+      siteName: 'Example',
+    });
+  });
+
+  it('drops images that are not web addresses', () => {
+    expect(parseLinkPreview(url, { title: 'Hello', image: 'javascript:alert(1)' })?.imageUrl).toBeUndefined();
+  });
+
+  it('returns null when there is nothing to show', () => {
+    expect(parseLinkPreview(url, { image: 'https://example.com/cover.png' })).toBeNull();
+    expect(parseLinkPreview(url, 'not an object')).toBeNull();
+  });
+});
+
+describe('StubUnfurlService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns registered previews and builds a title from the address otherwise', async () => {
+    const registered = { url: 'https://example.com/', title: 'Registered' };
+    const service = new StubUnfurlService({ 'https://example.com/': registered, 'https://example.com/none': null });
+
+    const results = Promise.all([
+      service.unfurl('https://example.com/'),
+      service.unfurl('https://example.com/none'),
+      service.unfurl('https://www.example.org/docs/getting-started'),
+    ]);
+    await vi.runAllTimersAsync();
+
+    expect(await results).toEqual([
+      registered,
+      null,
+      {
+        url: 'https://www.example.org/docs/getting-started',
+        siteName: 'example.org',
+        title: 'getting started',
+        description: 'https://www.example.org/docs/getting-started',
+      },
+    ]);
+  });
+
+  it('removes its abort listener once the preview resolves', async () => {
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const result = new StubUnfurlService().unfurl('https://example.com/', controller.signal);
+    await vi.runAllTimersAsync();
+    await result;
+
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    const result = new StubUnfurlService().unfurl('https://example.com/', controller.signal);
+    controller.abort();
+
+    await expect(result).rejects.toBe(controller.signal.reason);
+    await expect(new StubUnfurlService().unfurl('https://example.com/', controller.signal)).rejects.toBe(
+      controller.signal.reason
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { toSafeWebUrl } from '../utils/linkify';
+
+/** 링크 미리보기 (Open Graph 정보) */
+export interface LinkPreview {
+  url: string;
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  siteName?: string;
+}
+
+/**
+ * 주소의 미리보기 정보를 가져오는 서비스
+ * 브라우저는 다른 사이트의 HTML을 직접 읽을 수 없으므로(CORS) 실제로는 서버가 대신 가져온다
+ */
+export interface UnfurlService {
+  /** 미리보기를 만들 수 없는 페이지면 null */
+  unfurl(url: string, signal?: AbortSignal): Promise<LinkPreview | null>;
+}
+
+const readString = (data: Record<string, unknown>, key: string) => {
+  const value = data[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+/** 상대 주소는 페이지 기준으로 풀고, 웹 주소가 아니면(data:, javascript: 등) 버린다 */
+const resolveImageUrl = (image: string, pageUrl: string) => {
+  try {
+    return toSafeWebUrl(new URL(image, pageUrl).href) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * 서버가 돌려준 Open Graph 정보를 검사한다
+ * 제목도 설명도 없으면 카드로 보여줄 것이 없으므로 null
+ */
+export function parseLinkPreview(url: string, data: unknown): LinkPreview | null {
+  if (typeof data !== 'object' || data === null) return null;
+
+  const record = data as Record<string, unknown>;
+  const title = readString(record, 'title');
+  const description = readString(record, 'description');
+  if (!title && !description) return null;
+
+  const image = readString(record, 'image');
+  return {
+    url,
+    title,
+    description,
+    imageUrl: image ? resolveImageUrl(image, url) : undefined,
+    siteName: readString(record, 'siteName'),
+  };
+}
+
+/**
+ * 서버의 unfurl 엔드포인트를 쓰는 구현
+ * `GET {endpoint}?url=...`이 { title, description, image, siteName } JSON을 돌려준다고 가정
+ */
+export class HttpUnfurlService implements UnfurlService {
+  private endpoint: string;
+
+  constructor(endpoint: string) {
+    this.endpoint = endpoint;
+  }
+
+  async unfurl(url: string, signal?: AbortSignal): Promise<LinkPreview | null> {
+    const response = await fetch(`${this.endpoint}?url=${encodeURIComponent(url)}`, { signal });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to unfurl ${url}: ${response.status}`);
+    }
+    return parseLinkPreview(url, await response.json());
+  }
+}
+
+/** 모의 응답 지연 (ms) */
+const STUB_DELAY_MS = 300;
+
+/**
+ * 네트워크 없이 동작하는 구현 (데모, 테스트용)
+ * 등록한 미리보기를 돌려주고, 등록되지 않은 주소는 도메인과 경로로 제목을 만든다
+ */
+export class StubUnfurlService implements UnfurlService {
+  private previews: Record<string, LinkPreview | null>;
+  private delayMs: number;
+
+  constructor(previews: Record<string, LinkPreview | null> = {}, delayMs = STUB_DELAY_MS) {
+    this.previews = previews;
+    this.delayMs = delayMs;
+  }
+
+  async unfurl(url: string, signal?: AbortSignal): Promise<LinkPreview | null> {
+    signal?.throwIfAborted();
+    await new Promise<void>((resolve, reject) => {
+      const handleAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      // 오래 쓰는 signal에 리스너가 쌓이지 않도록 끝나면 뗀다
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      }, this.delayMs);
+      signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+
+    if (url in this.previews) return this.previews[url];
+
+    const { hostname, pathname } = new URL(url);
+    const siteName = hostname.replace(/^www\./, '');
+    const lastSegment = decodeURIComponent(pathname.split('/').filter(Boolean).pop() ?? '');
+    return {
+      url,
+      siteName,
+      title: lastSegment ? lastSegment.replace(/[-_]+/g, ' ') : siteName,
+      description: url,
+    };
+  }
+}
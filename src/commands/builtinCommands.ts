@@ -0,0 +1,162 @@
+import { useChatStore } from '../store/chatStore';
+import { useOutboxStore } from '../store/outboxStore';
+import { useToastStore } from '../store/toastStore';
+import { getCurrentLocale } from '../store/localeStore';
+import {
+  ATTACHMENT_ONLY_PROMPT,
+  regenerateAssistantReply,
+  stopAssistantReply,
+  streamAssistantReply,
+} from '../api/replyStream';
+import { pickFiles } from '../utils/filePicker';
+import { getThread, reparentRoots } from '../utils/messageTree';
+import { downloadFile } from '../utils/download';
+import {
+  EXPORT_FORMATS,
+  IMPORT_ACCEPT,
+  exportConversation,
+  isExportFormat,
+  readConversationExport,
+} from '../utils/conversationExport';
+import type { ChatCommand } from './types';
+
+/**
+ * 화면에서 대화 내용을 지운다 (실행 취소 가능)
+ * 서버 기록은 그대로이며 지운 뒤로는 이전 기록을 다시 불러오지 않는다
+ */
+const clearCommand: ChatCommand = {
+  name: 'clear',
+  descriptionKey: 'commands.clear.description',
+  run: ({ conversationId, t }) => {
+    const { messages, branches, hasMore, setMessages, setHasMore, setComposerTarget } = useChatStore.getState();
+    const previous = messages[conversationId] ?? [];
+    const previousThread = getThread(previous, branches[conversationId]);
+    const previousHasMore = hasMore[conversationId] ?? true;
+
+    stopAssistantReply(conversationId);
+    setComposerTarget(conversationId, null);
+    setMessages(conversationId, []);
+    setHasMore(conversationId, false);
+
+    useToastStore.getState().showToast({
+      message: t('commands.clear.done'),
+      action: {
+        label: t('common.undo'),
+        onClick: () => {
+          // 지운 뒤에 새로 온 메시지는 보던 갈래 뒤에 잇는다
+          const current = useChatStore.getState().messages[conversationId] ?? [];
+          const lastPrevious = previousThread[previousThread.length - 1];
+          setMessages(conversationId, [
+            ...previous,
+            ...(lastPrevious ? reparentRoots(current, undefined, lastPrevious.id).messages : current),
+          ]);
+          setHasMore(conversationId, previousHasMore);
+        },
+      },
+    });
+  },
+};
+
+const searchCommand: ChatCommand = {
+  name: 'search',
+  aliases: ['find'],
+  descriptionKey: 'commands.search.description',
+  args: [{ name: 'query', labelKey: 'commands.search.query', rest: true }],
+  run: ({ rawArgs, openSearch }) => openSearch(rawArgs),
+};
+
+/**
+ * 전송에 실패한 메시지를 다시 보내고, 없으면 마지막으로 보낸 메시지에 대한 응답을 다시 받는다
+ * 이미 받은 응답이 있으면 지우지 않고 다른 버전으로 다시 생성한다
+ */
+const retryCommand: ChatCommand = {
+  name: 'retry',
+  descriptionKey: 'commands.retry.description',
+  run: ({ conversationId, transport, t }) => {
+    const { messages, branches, updateMessage } = useChatStore.getState();
+    const conversationMessages = getThread(messages[conversationId] ?? [], branches[conversationId]);
+
+    const failed = conversationMessages.filter((message) => message.status === 'error');
+    if (failed.length > 0) {
+      failed.forEach((message) => {
+        updateMessage(conversationId, message.id, { status: 'sending' });
+        useOutboxStore.getState().enqueue({
+          messageId: message.id,
+          conversationId,
+          content: message.content,
+          attachments: message.attachments,
+        });
+      });
+      return;
+    }
+
+    const lastUserMessage = [...conversationMessages].reverse().find((message) => message.sender === 'user');
+    if (!lastUserMessage) {
+      throw new Error(t('commands.retry.nothing'));
+    }
+    const lastMessage = conversationMessages[conversationMessages.length - 1];
+    if (lastMessage.sender === 'assistant') {
+      void regenerateAssistantReply(transport, conversationId, lastMessage);
+      return;
+    }
+    void streamAssistantReply(transport, conversationId, lastUserMessage.content || ATTACHMENT_ONLY_PROMPT);
+  },
+};
+
+/**
+ * 대화를 파일로 내려받는다 (기본 JSON, 다시 가져올 수 있는 형식)
+ */
+const exportCommand: ChatCommand = {
+  name: 'export',
+  descriptionKey: 'commands.export.description',
+  args: [{ name: 'format', label: EXPORT_FORMATS.join('|') }],
+  run: ({ conversationId, args, t }) => {
+    const format = args.format?.toLowerCase() ?? 'json';
+    if (!isExportFormat(format)) {
+      throw new Error(t('export.unsupportedFormat', { format, formats: EXPORT_FORMATS.join(', ') }));
+    }
+
+    const { conversations, messages, branches } = useChatStore.getState();
+    const conversation = conversations[conversationId];
+    if (!conversation) return;
+    downloadFile(
+      exportConversation(conversation, messages[conversationId] ?? [], format, getCurrentLocale(), branches[conversationId])
+    );
+  },
+};
+
+/**
+ * JSON으로 내보낸 대화를 이 대화로 가져온다 (기본은 합치기)
+ */
+const importCommand: ChatCommand = {
+  name: 'import',
+  descriptionKey: 'commands.import.description',
+  args: [{ name: 'mode', label: 'merge|replace' }],
+  run: async ({ conversationId, args, t }) => {
+    const mode = args.mode?.toLowerCase() ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') {
+      throw new Error(t('import.unsupportedMode', { mode }));
+    }
+
+    const [file] = await pickFiles({ accept: IMPORT_ACCEPT });
+    if (!file) return;
+
+    const { data, error } = await readConversationExport(file);
+    if (error) {
+      throw new Error(t(`import.${error}`));
+    }
+    if (mode === 'replace') {
+      stopAssistantReply(conversationId);
+    }
+    useChatStore.getState().importMessages(conversationId, data.messages, mode);
+    useToastStore.getState().showToast({ message: t('import.done', { count: data.messages.length }) });
+  },
+};
+
+export const BUILTIN_COMMANDS: ChatCommand[] = [
+  clearCommand,
+  searchCommand,
+  retryCommand,
+  exportCommand,
+  importCommand,
+];
@@ -0,0 +1,13 @@
+// 슬래시 명령 공개 API. 기본 명령 외의 명령은 registerCommand로 추가한다
+export {
+  registerCommand,
+  findCommand,
+  matchCommands,
+  parseCommandInput,
+  parseCommandArgs,
+  formatCommandUsage,
+  getCommandDescription,
+  useCommandStore,
+} from './registry';
+
+export type { ChatCommand, CommandArgument, CommandContext } from './types';
@@ -0,0 +1,96 @@
+import { create } from 'zustand';
+import type { I18nContextValue } from '../i18n/I18nContext';
+import type { ChatCommand, CommandArgument } from './types';
+import { BUILTIN_COMMANDS } from './builtinCommands';
+
+interface CommandStore {
+  /** 이름(소문자) → 명령. 등록 순서대로 자동완성 목록에 나온다 */
+  commands: Record<string, ChatCommand>;
+}
+
+export const useCommandStore = create<CommandStore>(() => ({
+  commands: Object.fromEntries(BUILTIN_COMMANDS.map((command) => [command.name, command])),
+}));
+
+/**
+ * 명령을 등록하고 해제 함수를 반환
+ * 같은 이름이 이미 있으면 교체한다 (기본 명령 재정의 가능)
+ */
+export function registerCommand(command: ChatCommand): () => void {
+  const name = command.name.toLowerCase();
+  const registered = { ...command, name };
+  useCommandStore.setState((state) => ({ commands: { ...state.commands, [name]: registered } }));
+
+  return () => {
+    useCommandStore.setState((state) => {
+      // 그 사이 다른 명령으로 교체되었다면 건드리지 않는다
+      if (state.commands[name] !== registered) return state;
+      return { commands: Object.fromEntries(Object.entries(state.commands).filter(([key]) => key !== name)) };
+    });
+  };
+}
+
+/** 이름이나 별칭으로 명령을 찾는다 */
+export function findCommand(name: string): ChatCommand | undefined {
+  const { commands } = useCommandStore.getState();
+  const normalized = name.toLowerCase();
+  return commands[normalized] ?? Object.values(commands).find((command) => command.aliases?.includes(normalized));
+}
+
+/** 이름이나 별칭이 query로 시작하는 명령 (이름이 일치하는 것을 먼저) */
+export function matchCommands(commands: ChatCommand[], query: string): ChatCommand[] {
+  const normalized = query.toLowerCase();
+  const byName = commands.filter((command) => command.name.startsWith(normalized));
+  const byAlias = commands.filter(
+    (command) => !byName.includes(command) && command.aliases?.some((alias) => alias.startsWith(normalized))
+  );
+  return [...byName, ...byAlias];
+}
+
+/**
+ * 입력이 명령이면 이름과 나머지 입력으로 나눈다
+ * `//`로 시작하면 명령이 아니라 `/`로 시작하는 일반 메시지로 본다
+ */
+export function parseCommandInput(input: string): { name: string; rawArgs: string } | null {
+  const match = /^\/([^\s/]+)(?:\s+([\s\S]*))?$/.exec(input.trim());
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), rawArgs: match[2]?.trim() ?? '' };
+}
+
+/**
+ * 인자 정의 순서대로 공백 기준으로 나눈다
+ * 필수 인자가 비어 있으면 missing으로 알려준다
+ */
+export function parseCommandArgs(
+  command: ChatCommand,
+  rawArgs: string
+): { args: Record<string, string>; missing: CommandArgument | null } {
+  const definitions = command.args ?? [];
+  const tokens = rawArgs ? rawArgs.split(/\s+/) : [];
+  const args: Record<string, string> = {};
+
+  definitions.forEach((definition, index) => {
+    const value = definition.rest ? tokens.slice(index).join(' ') : tokens[index];
+    if (value) args[definition.name] = value;
+  });
+
+  const missing = definitions.find((definition) => definition.required && !args[definition.name]) ?? null;
+  return { args, missing };
+}
+
+export function getCommandDescription(command: ChatCommand, t: I18nContextValue['t']): string {
+  return command.descriptionKey ? t(command.descriptionKey) : command.description ?? '';
+}
+
+export function getArgumentLabel(argument: CommandArgument, t: I18nContextValue['t']): string {
+  return argument.labelKey ? t(argument.labelKey) : argument.label ?? argument.name;
+}
+
+/** `/search <검색어>` 형태의 사용법 */
+export function formatCommandUsage(command: ChatCommand, t: I18nContextValue['t']): string {
+  const args = (command.args ?? []).map((argument) => {
+    const label = getArgumentLabel(argument, t);
+    return argument.required ? `<${label}>` : `[${label}]`;
+  });
+  return [`/${command.name}`, ...args].join(' ');
+}
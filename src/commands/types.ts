@@ -0,0 +1,40 @@
+import type { ChatTransport } from '../api/transport';
+import type { I18nContextValue } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/catalog';
+
+/**
+ * 명령 인자 정의 (자동완성 안내와 필수 인자 검사에 사용)
+ * 문구는 번역 키(…Key)나 직접 쓴 문자열 중 하나로 지정한다
+ */
+export interface CommandArgument {
+  name: string;
+  label?: string;
+  labelKey?: MessageKey;
+  required?: boolean;
+  /** 마지막 인자가 나머지 입력 전체를 받는다 (공백 포함 검색어 등) */
+  rest?: boolean;
+}
+
+/** 명령을 실행할 때 화면이 제공하는 기능 */
+export interface CommandContext {
+  conversationId: string;
+  /** 인자 정의 순서대로 나눈 값 */
+  args: Record<string, string>;
+  /** 명령 이름 뒤의 입력 전체 */
+  rawArgs: string;
+  transport: ChatTransport;
+  t: I18nContextValue['t'];
+  /** 대화 내 검색을 연다 */
+  openSearch: (query?: string) => void;
+}
+
+export interface ChatCommand {
+  /** `/` 뒤에 입력하는 이름 (소문자, 공백 없음) */
+  name: string;
+  aliases?: string[];
+  description?: string;
+  descriptionKey?: MessageKey;
+  args?: CommandArgument[];
+  /** 오류를 던지면 메시지를 안내로 보여준다 */
+  run: (context: CommandContext) => void | Promise<void>;
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import type { Attachment } from '../../types/chat';
+import { formatDuration, formatFileSize } from '../../utils/attachments';
+import { useI18n } from '../../hooks/useI18n';
+
+interface AttachmentTrayProps {
+  attachments: Attachment[];
+  /** 검증에 실패한 파일 안내 */
+  errors?: string[];
+  onRemove: (id: string) => void;
+}
+
+/**
+ * 입력창 위에 표시되는 전송 대기 중인 첨부 파일 목록
+ */
+export const AttachmentTray: React.FC<AttachmentTrayProps> = ({ attachments, errors = [], onRemove }) => {
+  const { t } = useI18n();
+  if (attachments.length === 0 && errors.length === 0) return null;
+
+  return (
+    <div className="px-4 pt-3">
+      {attachments.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {attachments.map((attachment) => (
+            <div
+              key={attachment.id}
+              className="relative flex-shrink-0 w-16 h-16 rounded-lg border border-gray-200 bg-gray-50 overflow-hidden"
+            >
+              {attachment.kind === 'image' ? (
+                <img
+                  src={attachment.url}
+                  alt={attachment.name}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <div className="flex flex-col items-center justify-center w-full h-full px-1 text-center">
+                  <svg
+                    className="w-5 h-5 text-gray-500"
+                    fill="none"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth="2"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      d={attachment.kind === 'audio'
+                        ? 'M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3'
+                        : 'M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z'}
+                    />
+                  </svg>
+                  <span className="w-full text-[10px] text-gray-600 truncate">{attachment.name}</span>
+                  <span className="text-[10px] text-gray-400">
+                    {attachment.duration !== undefined ? formatDuration(attachment.duration) : formatFileSize(attachment.size)}
+                  </span>
+                </div>
+              )}
+              <button
+                onClick={() => onRemove(attachment.id)}
+                className="absolute top-0.5 end-0.5 rounded-full bg-black/60 p-0.5 text-white hover:bg-black/80"
+                aria-label={t('attachments.remove', { name: attachment.name })}
+              >
+                <svg
+                  className="w-3 h-3"
+                  fill="none"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {errors.map((error) => (
+        <p key={error} className="text-xs text-red-500 mt-1">{error}</p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Attachment } from '../../types/chat';
+import { cn } from '../../utils/cn';
+import { formatDuration } from '../../utils/attachments';
+import { WAVEFORM_BARS } from '../../utils/voiceRecorder';
+import { useI18n } from '../../hooks/useI18n';
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+
+/** 파형이 없는 오디오(파일로 첨부한 경우)에 쓸 평평한 막대 */
+const FLAT_WAVEFORM = Array<number>(WAVEFORM_BARS).fill(0.3);
+
+interface AudioPlayerProps {
+  attachment: Attachment;
+  isUser: boolean;
+}
+
+/**
+ * 메시지 안의 음성 재생기
+ * 파형을 눌러 끌면 원하는 위치로 이동하고, 배속 버튼으로 1x → 1.5x → 2x를 돌아가며 바꾼다
+ */
+export const AudioPlayer: React.FC<AudioPlayerProps> = ({ attachment, isUser }) => {
+  const { t } = useI18n();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+  const [rateIndex, setRateIndex] = useState(0);
+  // 녹음한 webm은 브라우저가 길이를 Infinity로 알려주는 경우가 많아 저장해 둔 길이를 우선한다
+  const duration = attachment.duration ?? mediaDuration ?? 0;
+  const progress = duration > 0 ? Math.min(currentTime / duration, 1) : 0;
+  const waveform = attachment.waveform?.length ? attachment.waveform : FLAT_WAVEFORM;
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = PLAYBACK_RATES[rateIndex];
+  }, [rateIndex]);
+
+  const handleTogglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    if (audio.paused) {
+      audio.play().catch((error) => console.error('Failed to play audio:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const handleSeek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = time;
+    setCurrentTime(time);
+  };
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 rounded-lg px-2 py-1.5',
+        isUser ? 'bg-blue-400' : 'bg-white'
+      )}
+    >
+      <audio
+        ref={audioRef}
+        src={attachment.url}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => {
+          setIsPlaying(false);
+          setCurrentTime(0);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onLoadedMetadata={(e) => {
+          const { duration: value } = e.currentTarget;
+          if (Number.isFinite(value)) setMediaDuration(value);
+          // 배속은 새로 불러온 미디어에 다시 적용해야 한다
+          e.currentTarget.playbackRate = PLAYBACK_RATES[rateIndex];
+        }}
+      />
+
+      <button
+        onClick={handleTogglePlay}
+        className={cn(
+          'flex-shrink-0 rounded-full p-1.5 transition-colors',
+          isUser ? 'bg-white text-blue-500 hover:bg-blue-50' : 'bg-blue-500 text-white hover:bg-blue-600'
+        )}
+        aria-label={isPlaying ? t('audio.pause') : t('audio.play')}
+      >
+        {isPlaying ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <rect x="6" y="5" width="4" height="14" rx="1" />
+            <rect x="14" y="5" width="4" height="14" rx="1" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4 rtl:-scale-x-100" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5.14v13.72a1 1 0 001.5.86l11-6.86a1 1 0 000-1.72l-11-6.86A1 1 0 008 5.14z" />
+          </svg>
+        )}
+      </button>
+
+      {/* 파형 위에 투명한 range를 겹쳐 끌어서 이동할 수 있게 한다 */}
+      <div className="relative flex h-8 min-w-0 flex-1 items-center gap-px">
+        {waveform.map((level, index) => (
+          <span
+            key={index}
+            className={cn(
+              'flex-1 rounded-full',
+              (index + 0.5) / waveform.length <= progress
+                ? isUser ? 'bg-white' : 'bg-blue-500'
+                : isUser ? 'bg-blue-200' : 'bg-gray-300'
+            )}
+            style={{ height: `${Math.max(level, 0.1) * 100}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          step={0.1}
+          value={Math.min(currentTime, duration || 1)}
+          onChange={(e) => handleSeek(Number(e.target.value))}
+          disabled={duration === 0}
+          className="absolute inset-0 w-full cursor-pointer opacity-0"
+          aria-label={t('audio.seek')}
+          aria-valuetext={`${formatDuration(currentTime)} / ${formatDuration(duration)}`}
+        />
+      </div>
+
+      <span className={cn('flex-shrink-0 text-xs tabular-nums', isUser ? 'text-blue-100' : 'text-gray-500')}>
+        {formatDuration(isPlaying || currentTime > 0 ? currentTime : duration)}
+      </span>
+
+      <button
+        onClick={() => setRateIndex((index) => (index + 1) % PLAYBACK_RATES.length)}
+        className={cn(
+          'flex-shrink-0 rounded-full px-1.5 py-0.5 text-xs font-medium tabular-nums transition-colors',
+          isUser ? 'bg-blue-300 hover:bg-blue-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+        )}
+        aria-label={t('audio.speed', { rate: PLAYBACK_RATES[rateIndex] })}
+      >
+        {PLAYBACK_RATES[rateIndex]}x
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useI18n } from '../../hooks/useI18n';
+
+interface BranchSwitcherProps {
+  /** 보고 있는 버전 (0부터) */
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+}
+
+/**
+ * 다시 생성한 응답이나 수정해서 나뉜 메시지의 `< 2/3 >` 버전 전환
+ */
+export const BranchSwitcher: React.FC<BranchSwitcherProps> = ({ index, count, onSelect }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-center text-xs text-gray-500" role="group" aria-label={t('branches.label')}>
+      <button
+        onClick={() => onSelect(index - 1)}
+        disabled={index === 0}
+        className="rounded p-0.5 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+        aria-label={t('branches.previous')}
+      >
+        <svg
+          className="w-4 h-4 rtl:-scale-x-100"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M15 19l-7-7 7-7" />
+        </svg>
+      </button>
+      <span className="px-0.5 tabular-nums" aria-live="polite">
+        {t('branches.position', { index: index + 1, count })}
+      </span>
+      <button
+        onClick={() => onSelect(index + 1)}
+        disabled={index === count - 1}
+        className="rounded p-0.5 hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+        aria-label={t('branches.next')}
+      >
+        <svg
+          className="w-4 h-4 rtl:-scale-x-100"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M9 5l7 7-7 7" />
+        </svg>
+      </button>
+    </div>
+  );
+};
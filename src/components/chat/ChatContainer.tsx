@@ -1,20 +1,77 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { MessageList } from './MessageList';
 import { MessageInput } from './MessageInput';
+import { ChatSearchBar } from './ChatSearchBar';
 import { useChatStore } from '../../store/chatStore';
-import { getInitialMessages } from '../../api/mockData';
 import { useVirtualKeyboard } from '../../hooks/useVirtualKeyboard';
+import { useTransport } from '../../hooks/useTransport';
+import { useOnlineStatus } from '../../hooks/useOnlineStatus';
+import { useMessageSearch } from '../../hooks/useMessageSearch';
+import { useI18n } from '../../hooks/useI18n';
 
-export const ChatContainer: React.FC = () => {
-  const { setMessages, setLoading } = useChatStore();
+interface ChatContainerProps {
+  conversationId: string;
+  onBack: () => void;
+}
+
+export const ChatContainer: React.FC<ChatContainerProps> = ({ conversationId, onBack }) => {
+  const title = useChatStore((state) => state.conversations[conversationId]?.title);
+  const setMessages = useChatStore((state) => state.setMessages);
+  const setLoading = useChatStore((state) => state.setLoading);
+  const setActiveConversation = useChatStore((state) => state.setActiveConversation);
   const keyboard = useVirtualKeyboard();
+  const transport = useTransport();
+  const isOnline = useOnlineStatus();
+  const { t } = useI18n();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchIndex, setSearchIndex] = useState(0);
+  const search = useMessageSearch(conversationId, isSearchOpen ? searchQuery : '');
+  // 메시지가 삭제되는 등으로 결과 수가 줄면 범위 안으로 맞춘다
+  const activeSearchIndex = Math.min(searchIndex, Math.max(search.matchIds.length - 1, 0));
+  const activeSearchMessageId = search.matchIds[activeSearchIndex] ?? null;
+  
+  const handleSearchQueryChange = (query: string) => {
+    setSearchQuery(query);
+    setSearchIndex(0);
+  };
+  
+  const handleSearchPrevious = async () => {
+    if (activeSearchIndex < search.matchIds.length - 1) {
+      setSearchIndex(activeSearchIndex + 1);
+      return;
+    }
+    // 로드된 범위의 가장 오래된 결과라면 이전 페이지에서 계속 찾는다
+    const loadedCount = search.matchIds.length;
+    await search.searchOlder();
+    setSearchIndex(loadedCount);
+  };
+  
+  const handleOpenSearch = (query = '') => {
+    setIsSearchOpen(true);
+    handleSearchQueryChange(query);
+  };
+  
+  const handleCloseSearch = () => {
+    setIsSearchOpen(false);
+    setSearchQuery('');
+    setSearchIndex(0);
+  };
+
+  useEffect(() => {
+    setActiveConversation(conversationId);
+    return () => setActiveConversation(null);
+  }, [conversationId, setActiveConversation]);
 
   useEffect(() => {
+    // 이미 불러온 대화는 다시 요청하지 않음
+    if (useChatStore.getState().messages[conversationId]) return;
+    
     const loadInitialMessages = async () => {
       setLoading(true);
       try {
-        const messages = await getInitialMessages();
-        setMessages(messages);
+        const messages = await transport.fetchHistory(conversationId);
+        setMessages(conversationId, messages);
       } catch (error) {
         console.error('Failed to load messages:', error);
       } finally {
@@ -23,7 +80,7 @@ export const ChatContainer: React.FC = () => {
     };
     
     loadInitialMessages();
-  }, [setMessages, setLoading]);
+  }, [conversationId, transport, setMessages, setLoading]);
 
   // iOS에서는 키보드 흰 공백 제거를 위한 완전한 뷰포트 제어
   const containerStyle = useMemo(() => {
@@ -113,16 +170,76 @@ export const ChatContainer: React.FC = () => {
         style={containerStyle}
       >
         {/* Header with top safe area */}
-        <header className="border-b border-gray-200 bg-white px-4 py-3 flex-shrink-0 safe-area-top">
-          <h1 className="text-lg font-semibold text-gray-900">채팅</h1>
+        <header className="border-b border-gray-200 bg-white px-2 py-3 flex-shrink-0 safe-area-top flex items-center gap-1">
+          <button
+            onClick={onBack}
+            className="rounded-full p-2 transition-all hover:bg-gray-100 active:scale-95"
+            aria-label={t('chat.back')}
+          >
+            <svg
+              className="w-5 h-5 text-gray-600 rtl:rotate-180"
+              fill="none"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          {isSearchOpen ? (
+            <ChatSearchBar
+              query={searchQuery}
+              onQueryChange={handleSearchQueryChange}
+              activeIndex={activeSearchIndex}
+              matchCount={search.matchIds.length}
+              hasMore={search.hasMore}
+              isSearchingOlder={search.isSearchingOlder}
+              onPrevious={handleSearchPrevious}
+              onNext={() => setSearchIndex(Math.max(activeSearchIndex - 1, 0))}
+              onClose={handleCloseSearch}
+            />
+          ) : (
+            <>
+              <h1 className="flex-1 text-lg font-semibold text-gray-900 truncate">{title ?? t('conversations.defaultTitle')}</h1>
+              <button
+                onClick={() => setIsSearchOpen(true)}
+                className="rounded-full p-2 transition-all hover:bg-gray-100 active:scale-95"
+                aria-label={t('search.open')}
+              >
+                <svg
+                  className="w-5 h-5 text-gray-600"
+                  fill="none"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+              </button>
+            </>
+          )}
         </header>
         
+        {!isOnline && (
+          <div className="bg-yellow-50 text-yellow-800 text-sm text-center px-4 py-1.5 flex-shrink-0">
+            {t('chat.offline')}
+          </div>
+        )}
+        
         {/* Message List */}
         <main 
-          className="flex-1 min-h-0 overflow-auto"
+          className="flex-1 min-h-0 overflow-hidden"
           style={messageListStyle}
         >
-          <MessageList />
+          <MessageList
+            conversationId={conversationId}
+            searchTerms={search.terms}
+            activeSearchMessageId={activeSearchMessageId}
+          />
         </main>
         
         {/* Input Area with bottom safe area */}
@@ -134,7 +251,7 @@ export const ChatContainer: React.FC = () => {
           }`}
           style={inputAreaStyle}
         >
-          <MessageInput />
+          <MessageInput conversationId={conversationId} onOpenSearch={handleOpenSearch} />
         </footer>
       </div>
     </>
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef } from 'react';
+import { cn } from '../../utils/cn';
+import { useI18n } from '../../hooks/useI18n';
+
+interface ChatSearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  /** 현재 일치 항목 위치 (0 = 가장 최근) */
+  activeIndex: number;
+  matchCount: number;
+  /** 아직 불러오지 않은 이전 메시지가 있는지 */
+  hasMore: boolean;
+  isSearchingOlder: boolean;
+  /** 더 오래된 일치 항목으로 */
+  onPrevious: () => void;
+  /** 더 최근 일치 항목으로 */
+  onNext: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 채팅 헤더의 검색 모드
+ * Enter/Shift+Enter로 이전/다음 결과, Escape로 닫기
+ */
+export const ChatSearchBar: React.FC<ChatSearchBarProps> = ({
+  query,
+  onQueryChange,
+  activeIndex,
+  matchCount,
+  hasMore,
+  isSearchingOlder,
+  onPrevious,
+  onNext,
+  onClose,
+}) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const hasQuery = query.trim().length > 0;
+  const canGoPrevious = activeIndex < matchCount - 1 || (hasQuery && hasMore);
+  const canGoNext = activeIndex > 0;
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        if (canGoNext) onNext();
+      } else if (canGoPrevious) {
+        onPrevious();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="flex flex-1 items-center gap-1 min-w-0">
+      <input
+        ref={inputRef}
+        type="search"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder={t('search.placeholder')}
+        className={cn(
+          'flex-1 min-w-0 rounded-full border border-gray-300 bg-gray-50',
+          'px-4 py-1.5 text-sm focus:outline-none focus:border-blue-500'
+        )}
+        aria-label={t('search.open')}
+      />
+
+      {hasQuery && (
+        <span className="flex-shrink-0 px-1 text-xs text-gray-500 tabular-nums" aria-live="polite">
+          {isSearchingOlder
+            ? t('search.searching')
+            : matchCount > 0
+              ? t('search.position', { current: activeIndex + 1, total: matchCount })
+              : t('search.noResults')}
+        </span>
+      )}
+
+      <button
+        onClick={onPrevious}
+        disabled={!canGoPrevious || isSearchingOlder}
+        className="rounded-full p-1.5 text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+        aria-label={t('search.previous')}
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={onNext}
+        disabled={!canGoNext}
+        className="rounded-full p-1.5 text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+        aria-label={t('search.next')}
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      <button
+        onClick={onClose}
+        className="rounded-full p-1.5 text-gray-600 hover:bg-gray-100"
+        aria-label={t('search.close')}
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
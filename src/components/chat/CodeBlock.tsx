@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { copyToClipboard } from '../../utils/clipboard';
+import { cn } from '../../utils/cn';
+import { useI18n } from '../../hooks/useI18n';
+
+interface CodeBlockProps {
+  code: string;
+  language?: string;
+}
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+  const { t } = useI18n();
+  const [isCopied, setIsCopied] = useState(false);
+  const copiedTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  
+  useEffect(() => {
+    return () => {
+      if (copiedTimeoutRef.current) {
+        clearTimeout(copiedTimeoutRef.current);
+      }
+    };
+  }, []);
+  
+  const handleCopy = async () => {
+    const success = await copyToClipboard(code);
+    if (!success) return;
+    
+    setIsCopied(true);
+    if (copiedTimeoutRef.current) {
+      clearTimeout(copiedTimeoutRef.current);
+    }
+    copiedTimeoutRef.current = setTimeout(() => setIsCopied(false), 2000);
+  };
+  
+  return (
+    <div className="my-2 rounded-lg overflow-hidden bg-gray-900 text-gray-100">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-gray-800 text-xs">
+        <span className="text-gray-400">{language || 'text'}</span>
+        <button
+          onClick={handleCopy}
+          className={cn(
+            'px-2 py-0.5 rounded transition-colors',
+            'hover:bg-gray-700 active:bg-gray-600',
+            isCopied ? 'text-green-400' : 'text-gray-300'
+          )}
+          aria-label={t('code.copy')}
+        >
+          {isCopied ? t('common.copied') : t('common.copy')}
+        </button>
+      </div>
+      <pre className="overflow-x-auto p-3 text-sm leading-relaxed">
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
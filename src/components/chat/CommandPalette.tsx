@@ -0,0 +1,58 @@
+import React from 'react';
+import { cn } from '../../utils/cn';
+import { formatCommandUsage, getCommandDescription } from '../../commands/registry';
+import type { ChatCommand } from '../../commands/types';
+import { useI18n } from '../../hooks/useI18n';
+import { getCommandOptionId } from '../../hooks/useCommandPalette';
+
+interface CommandPaletteProps {
+  /** 입력창의 aria-controls와 항목 id에 사용 */
+  id: string;
+  commands: ChatCommand[];
+  activeIndex: number;
+  onSelect: (command: ChatCommand) => void;
+  onActiveIndexChange: (index: number) => void;
+}
+
+/**
+ * 입력창 위에 뜨는 슬래시 명령 자동완성 목록
+ * 포커스는 입력창에 둔 채 방향키로 고르므로 항목은 aria-activedescendant로 가리킨다
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  id,
+  commands,
+  activeIndex,
+  onSelect,
+  onActiveIndexChange,
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label={t('commands.list')}
+      className="absolute bottom-full left-0 right-0 z-20 mb-1 max-h-64 overflow-y-auto rounded-t-lg border border-gray-200 bg-white py-1 shadow-lg"
+    >
+      {commands.map((command, index) => (
+        <li
+          key={command.name}
+          id={getCommandOptionId(id, index)}
+          role="option"
+          aria-selected={index === activeIndex}
+          // 입력창 포커스를 잃지 않도록 mousedown 기본 동작을 막는다
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(command)}
+          onMouseEnter={() => onActiveIndexChange(index)}
+          className={cn(
+            'flex cursor-pointer flex-col px-4 py-2',
+            index === activeIndex ? 'bg-blue-50' : 'hover:bg-gray-50'
+          )}
+        >
+          <span className="font-mono text-sm text-gray-900">{formatCommandUsage(command, t)}</span>
+          <span className="text-xs text-gray-500 truncate">{getCommandDescription(command, t)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import type { Message } from '../../types/chat';
+import type { ComposerTarget } from '../../store/chatStore';
+import { getMessagePreview } from '../../utils/messagePreview';
+import { useI18n } from '../../hooks/useI18n';
+
+interface ComposerTargetBarProps {
+  target: ComposerTarget;
+  message: Message;
+  /** 수정하면 새 갈래로 보내진다 */
+  isBranching?: boolean;
+  onCancel: () => void;
+}
+
+/**
+ * 입력창 위에 표시되는 답장/수정 대상 메시지
+ */
+export const ComposerTargetBar: React.FC<ComposerTargetBarProps> = ({ target, message, isBranching = false, onCancel }) => {
+  const { t } = useI18n();
+  const label = target.mode === 'edit'
+    ? t(isBranching ? 'composer.editingBranch' : 'composer.editing')
+    : t('composer.replyingTo', { name: t(message.sender === 'user' ? 'sender.user' : 'sender.assistant') });
+
+  return (
+    <div className="flex items-center gap-2 border-t border-gray-200 bg-gray-50 px-4 py-2">
+      <div className="min-w-0 flex-1 border-s-2 border-blue-500 ps-2">
+        <p className="text-xs font-medium text-blue-600">{label}</p>
+        <p className="text-sm text-gray-600 truncate">{getMessagePreview(message, t)}</p>
+      </div>
+      <button
+        onClick={onCancel}
+        className="rounded-full p-1 text-gray-500 hover:bg-gray-200 transition-colors"
+        aria-label={t(target.mode === 'edit' ? 'composer.cancelEdit' : 'composer.cancelReply')}
+      >
+        <svg
+          className="w-4 h-4"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
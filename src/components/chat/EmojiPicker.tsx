@@ -0,0 +1,102 @@
+import React, { useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { cn } from '../../utils/cn';
+import { searchEmoji } from '../../utils/emoji';
+import { useI18n } from '../../hooks/useI18n';
+
+interface EmojiPickerProps {
+  /** 피커를 띄울 화면 좌표 */
+  position: { x: number; y: number };
+  /** 내가 이미 반응한 이모지 (강조 표시) */
+  selected: string[];
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+/** 화면 가장자리와의 최소 간격 */
+const VIEWPORT_MARGIN = 8;
+
+/**
+ * 검색할 수 있는 이모지 선택 창
+ * 검색창에서 Enter를 누르면 첫 번째 결과를 고른다
+ */
+export const EmojiPicker: React.FC<EmojiPickerProps> = ({ position, selected, onSelect, onClose }) => {
+  const { t } = useI18n();
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [placement, setPlacement] = useState(position);
+  const results = useMemo(() => searchEmoji(query), [query]);
+
+  // 화면 밖으로 나가지 않도록 위치 보정
+  useLayoutEffect(() => {
+    const picker = pickerRef.current;
+    if (!picker) return;
+
+    const { width, height } = picker.getBoundingClientRect();
+    setPlacement({
+      x: Math.max(VIEWPORT_MARGIN, Math.min(position.x, window.innerWidth - width - VIEWPORT_MARGIN)),
+      y: Math.max(VIEWPORT_MARGIN, Math.min(position.y, window.innerHeight - height - VIEWPORT_MARGIN)),
+    });
+  }, [position]);
+
+  const handleSelect = (emoji: string) => {
+    onClose();
+    onSelect(emoji);
+  };
+
+  return createPortal(
+    <>
+      <div className="fixed inset-0 z-[1800]" onClick={onClose} />
+      <div
+        ref={pickerRef}
+        role="dialog"
+        aria-label={t('emoji.picker')}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') {
+            e.preventDefault();
+            onClose();
+          }
+        }}
+        className="fixed z-[1900] w-72 rounded-xl border border-gray-200 bg-white p-2 shadow-xl"
+        style={{ left: placement.x, top: placement.y }}
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && results.length > 0) {
+              e.preventDefault();
+              handleSelect(results[0].emoji);
+            }
+          }}
+          placeholder={t('emoji.search')}
+          aria-label={t('emoji.search')}
+          className="mb-2 w-full rounded-lg border border-gray-300 px-3 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+          autoFocus
+        />
+        {results.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500">{t('emoji.noResults')}</p>
+        ) : (
+          <div className="grid max-h-56 grid-cols-8 gap-0.5 overflow-y-auto">
+            {results.map((entry) => (
+              <button
+                key={entry.emoji}
+                onClick={() => handleSelect(entry.emoji)}
+                className={cn(
+                  'rounded-lg p-1 text-xl leading-none transition-colors hover:bg-gray-100',
+                  selected.includes(entry.emoji) && 'bg-blue-50'
+                )}
+                aria-label={entry.keywords[0]}
+                aria-pressed={selected.includes(entry.emoji)}
+              >
+                {entry.emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </>,
+    document.body
+  );
+};
@@ -1,35 +1,32 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { cn } from '../../utils/cn';
+import { useI18n } from '../../hooks/useI18n';
 
 interface FloatingTimeIndicatorProps {
-  lastRefreshTime: Date | null;
+  /** 화면 맨 위에 보이는 메시지의 날짜 */
+  date: Date | null;
+  /** 그 날의 구분선이 화면 위로 지나갔을 때 */
   isVisible: boolean;
 }
 
+/**
+ * 목록 상단에 고정된 날짜 구분선
+ * 구분선 행은 메시지와 함께 스크롤되므로, 지나간 뒤에는 이 표시가 그 날짜를 계속 보여준다
+ */
 export const FloatingTimeIndicator: React.FC<FloatingTimeIndicatorProps> = ({
-  lastRefreshTime,
+  date,
   isVisible,
 }) => {
-  const [displayTime, setDisplayTime] = useState<string>('');
-  
-  useEffect(() => {
-    if (lastRefreshTime) {
-      const timeString = lastRefreshTime.toLocaleTimeString('ko-KR', {
-        hour: '2-digit',
-        minute: '2-digit',
-      });
-      setDisplayTime(`마지막 업데이트: ${timeString}`);
-    }
-  }, [lastRefreshTime]);
+  const { formatDateLabel } = useI18n();
   
   return (
     <div
       className={cn(
         'absolute top-4 left-1/2 -translate-x-1/2 z-20',
-        'px-4 py-2 rounded-full',
-        'bg-black/70 backdrop-blur-md text-white text-sm',
+        'px-3 py-1 rounded-full',
+        'bg-black/60 backdrop-blur-md text-white text-xs',
         'transition-all duration-300 ease-out',
-        isVisible
+        isVisible && date
           ? 'opacity-100 translate-y-0'
           : 'opacity-0 -translate-y-full pointer-events-none'
       )}
@@ -37,7 +34,7 @@ export const FloatingTimeIndicator: React.FC<FloatingTimeIndicatorProps> = ({
         top: 'calc(var(--safe-area-inset-top) + 1rem)',
       }}
     >
-      {displayTime}
+      {date && formatDateLabel(date)}
     </div>
   );
 };
\ No newline at end of file
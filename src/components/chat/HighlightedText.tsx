@@ -0,0 +1,30 @@
+import React from 'react';
+import { findHighlightRanges } from '../../utils/search';
+
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+/**
+ * 검색어와 일치하는 부분을 <mark>로 표시한 일반 텍스트
+ */
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, terms }) => {
+  const ranges = findHighlightRanges(text, terms);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 text-gray-900">
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
@@ -0,0 +1,81 @@
+import React, { useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import type { Attachment } from '../../types/chat';
+import { useI18n } from '../../hooks/useI18n';
+
+interface ImageViewerProps {
+  image: Attachment;
+  onClose: () => void;
+}
+
+/**
+ * 이미지 첨부를 전체 화면으로 보여주는 뷰어
+ * 가상 리스트의 transform 영향을 받지 않도록 body에 포털로 렌더링
+ */
+export const ImageViewer: React.FC<ImageViewerProps> = ({ image, onClose }) => {
+  const { t } = useI18n();
+  
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[2000] flex items-center justify-center bg-black/90"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={image.name}
+    >
+      <img
+        src={image.url}
+        alt={image.name}
+        className="max-w-full max-h-full object-contain"
+        onClick={(e) => e.stopPropagation()}
+      />
+      <div className="absolute top-0 end-0 flex items-center gap-2 p-4 safe-area-top">
+        <a
+          href={image.url}
+          download={image.name}
+          onClick={(e) => e.stopPropagation()}
+          className="rounded-full p-2 text-white hover:bg-white/20 transition-colors"
+          aria-label={t('common.download')}
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+        </a>
+        <button
+          onClick={onClose}
+          className="rounded-full p-2 text-white hover:bg-white/20 transition-colors"
+          aria-label={t('attachments.closeViewer')}
+        >
+          <svg
+            className="w-6 h-6"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+    </div>,
+    document.body
+  );
+};
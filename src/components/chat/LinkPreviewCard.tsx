@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { cn } from '../../utils/cn';
+import { useLinkPreview } from '../../hooks/useLinkPreview';
+import { useI18n } from '../../hooks/useI18n';
+
+interface LinkPreviewCardProps {
+  url: string;
+  isUser: boolean;
+  /** 이 메시지의 미리보기 숨기기. 없으면 닫기 버튼을 숨긴다 */
+  onHide?: () => void;
+}
+
+/**
+ * 메시지 속 주소의 Open Graph 미리보기 카드
+ * 가져오는 중이거나 미리보기가 없는 페이지면 아무것도 그리지 않는다
+ */
+export const LinkPreviewCard: React.FC<LinkPreviewCardProps> = ({ url, isUser, onHide }) => {
+  const { t } = useI18n();
+  const preview = useLinkPreview(url);
+  const [hasImageError, setHasImageError] = useState(false);
+
+  if (!preview) return null;
+
+  return (
+    <div
+      className={cn(
+        'relative mt-2 overflow-hidden rounded-xl border',
+        isUser ? 'border-blue-300 bg-blue-400/40' : 'border-gray-200 bg-white'
+      )}
+    >
+      <a
+        href={preview.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className="block"
+      >
+        {preview.imageUrl && !hasImageError && (
+          <img
+            src={preview.imageUrl}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            onError={() => setHasImageError(true)}
+            className="h-32 w-full object-cover"
+          />
+        )}
+        <div className="px-3 py-2">
+          {preview.siteName && (
+            <p className={cn('truncate text-xs', isUser ? 'text-blue-100' : 'text-gray-500')}>{preview.siteName}</p>
+          )}
+          {preview.title && <p className="line-clamp-2 text-sm font-semibold">{preview.title}</p>}
+          {preview.description && (
+            <p className={cn('line-clamp-2 text-xs', isUser ? 'text-blue-50' : 'text-gray-600')}>
+              {preview.description}
+            </p>
+          )}
+        </div>
+      </a>
+      {onHide && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onHide();
+          }}
+          className="absolute top-1 end-1 rounded-full bg-black/40 p-1 text-white hover:bg-black/60 transition-colors"
+          aria-label={t('linkPreview.hide')}
+        >
+          <svg
+            className="w-3 h-3"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import { findLinks } from '../../utils/linkify';
+import { HighlightedText } from './HighlightedText';
+
+interface LinkifiedTextProps {
+  text: string;
+  /** 하이라이트할 검색어 */
+  terms?: string[];
+}
+
+const NO_TERMS: string[] = [];
+
+/**
+ * 주소, 이메일, 전화번호를 링크로 바꾼 일반 텍스트
+ * 웹 주소는 새 탭에서 열고 opener를 넘기지 않는다
+ */
+export const LinkifiedText: React.FC<LinkifiedTextProps> = ({ text, terms = NO_TERMS }) => {
+  const links = useMemo(() => findLinks(text), [text]);
+
+  const renderText = (value: string) => (terms.length > 0 ? <HighlightedText text={value} terms={terms} /> : value);
+
+  if (links.length === 0) return <>{renderText(text)}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  links.forEach((link) => {
+    if (link.start > cursor) {
+      parts.push(<React.Fragment key={cursor}>{renderText(text.slice(cursor, link.start))}</React.Fragment>);
+    }
+    parts.push(
+      <a
+        key={link.start}
+        href={link.href}
+        target={link.kind === 'url' ? '_blank' : undefined}
+        rel="noopener noreferrer"
+        // 말풍선의 탭 동작(실패 메시지 메뉴 등)이 함께 실행되지 않도록
+        onClick={(e) => e.stopPropagation()}
+        className="underline break-all"
+      >
+        {renderText(link.text)}
+      </a>
+    );
+    cursor = link.end;
+  });
+  if (cursor < text.length) {
+    parts.push(<React.Fragment key={cursor}>{renderText(text.slice(cursor))}</React.Fragment>);
+  }
+
+  return <>{parts}</>;
+};
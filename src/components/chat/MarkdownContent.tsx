@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { defaultUrlTransform, type Components, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CodeBlock } from './CodeBlock';
+import { remarkHighlight } from './remarkHighlight';
+import { remarkLinkify } from './remarkLinkify';
+
+interface MarkdownContentProps {
+  content: string;
+  /** 하이라이트할 검색어 */
+  highlightTerms?: string[];
+}
+
+const NO_TERMS: string[] = [];
+
+// 기본 변환은 tel: 주소를 지우므로 전화번호 링크는 그대로 둔다
+const urlTransform = (url: string) => (url.startsWith('tel:') ? url : defaultUrlTransform(url));
+
+// 원시 HTML은 렌더링하지 않음 (react-markdown 기본 동작, rehype-raw 미사용)
+const components: Components = {
+  h1: ({ children }) => <h1 className="text-xl font-bold mt-3 mb-2 first:mt-0">{children}</h1>,
+  h2: ({ children }) => <h2 className="text-lg font-bold mt-3 mb-2 first:mt-0">{children}</h2>,
+  h3: ({ children }) => <h3 className="text-base font-semibold mt-2 mb-1 first:mt-0">{children}</h3>,
+  h4: ({ children }) => <h4 className="font-semibold mt-2 mb-1 first:mt-0">{children}</h4>,
+  p: ({ children }) => <p className="my-1 first:mt-0 last:mb-0 whitespace-pre-wrap break-words">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc ps-5 my-1 space-y-0.5">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal ps-5 my-1 space-y-0.5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-s-4 border-gray-300 ps-3 my-2 text-gray-600">{children}</blockquote>
+  ),
+  a: ({ href, children }) => (
+    <a
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-blue-600 underline break-all"
+    >
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="min-w-full border-collapse text-sm">{children}</table>
+    </div>
+  ),
+  th: ({ children, style }) => (
+    <th className="border border-gray-300 bg-gray-200 px-2 py-1 font-semibold" style={style}>
+      {children}
+    </th>
+  ),
+  td: ({ children, style }) => (
+    <td className="border border-gray-300 px-2 py-1" style={style}>
+      {children}
+    </td>
+  ),
+  hr: () => <hr className="my-3 border-gray-300" />,
+  mark: ({ children }) => <mark className="rounded-sm bg-yellow-200 text-gray-900">{children}</mark>,
+  // 코드 블록은 CodeBlock에서 <pre>를 직접 렌더링
+  pre: ({ children }) => <>{children}</>,
+  code: ({ className, children }) => {
+    const match = /language-(\S+)/.exec(className || '');
+    const code = String(children ?? '');
+    const isBlock = Boolean(match) || code.includes('\n');
+    
+    if (isBlock) {
+      return <CodeBlock code={code.replace(/\n$/, '')} language={match?.[1]} />;
+    }
+    
+    return (
+      <code className="rounded bg-gray-200 px-1 py-0.5 font-mono text-[0.9em]">
+        {children}
+      </code>
+    );
+  },
+};
+
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, highlightTerms = NO_TERMS }) => {
+  const remarkPlugins = useMemo<Options['remarkPlugins']>(
+    () => [remarkGfm, remarkLinkify, [remarkHighlight, { terms: highlightTerms }]],
+    [highlightTerms]
+  );
+  
+  return (
+    <div className="break-words">
+      <ReactMarkdown remarkPlugins={remarkPlugins} components={components} urlTransform={urlTransform}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
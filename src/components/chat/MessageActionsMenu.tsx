@@ -0,0 +1,210 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { cn } from '../../utils/cn';
+import { useI18n } from '../../hooks/useI18n';
+
+export interface MessageAction {
+  id: string;
+  label: string;
+  /** SVG path */
+  icon: string;
+  destructive?: boolean;
+  onSelect: () => void;
+}
+
+/** 메뉴 위쪽의 빠른 반응 줄 */
+export interface QuickReactions {
+  emojis: string[];
+  /** 내가 이미 반응한 이모지 */
+  selected: string[];
+  onReact: (emoji: string) => void;
+  /** 이모지 선택 창 열기 */
+  onMore: () => void;
+}
+
+interface MessageActionsMenuProps {
+  /** 메뉴를 띄울 화면 좌표 */
+  position: { x: number; y: number };
+  actions: MessageAction[];
+  reactions?: QuickReactions;
+  onClose: () => void;
+}
+
+/** 화면 가장자리와의 최소 간격 */
+const VIEWPORT_MARGIN = 8;
+
+/**
+ * 메시지 컨텍스트 메뉴
+ * 화살표 키로 항목 이동(반응 줄에서는 좌우로도), Enter로 실행, Escape로 닫기
+ */
+export const MessageActionsMenu: React.FC<MessageActionsMenuProps> = ({ position, actions, reactions, onClose }) => {
+  const { t, dir } = useI18n();
+  const menuRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const [placement, setPlacement] = useState(position);
+
+  // 화면 밖으로 나가지 않도록 위치 보정
+  useLayoutEffect(() => {
+    const menu = menuRef.current;
+    if (!menu) return;
+
+    const { width, height } = menu.getBoundingClientRect();
+    setPlacement({
+      x: Math.max(VIEWPORT_MARGIN, Math.min(position.x, window.innerWidth - width - VIEWPORT_MARGIN)),
+      y: Math.max(VIEWPORT_MARGIN, Math.min(position.y, window.innerHeight - height - VIEWPORT_MARGIN)),
+    });
+  }, [position]);
+
+  // 반응 줄(이모지 + 더보기 버튼) 다음에 메뉴 항목이 이어진다
+  const reactionCount = reactions ? reactions.emojis.length + 1 : 0;
+  const itemCount = reactionCount + actions.length;
+
+  // 처음에는 반응 줄이 아니라 첫 메뉴 항목에 포커스
+  useEffect(() => {
+    itemRefs.current[actions.length > 0 ? reactionCount : 0]?.focus();
+  }, [actions.length, reactionCount]);
+
+  const focusItem = (index: number) => {
+    itemRefs.current[(index + itemCount) % itemCount]?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const currentIndex = itemRefs.current.findIndex((item) => item === document.activeElement);
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        focusItem(currentIndex + 1);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        focusItem(currentIndex - 1);
+        break;
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        if (currentIndex >= 0 && currentIndex < reactionCount) {
+          e.preventDefault();
+          const forward = (e.key === 'ArrowRight') === (dir === 'ltr');
+          focusItem(Math.min(Math.max(currentIndex + (forward ? 1 : -1), 0), reactionCount - 1));
+        }
+        break;
+      case 'Home':
+        e.preventDefault();
+        focusItem(0);
+        break;
+      case 'End':
+        e.preventDefault();
+        focusItem(itemCount - 1);
+        break;
+      case 'Escape':
+      case 'Tab':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  return createPortal(
+    <>
+      <div
+        className="fixed inset-0 z-[1800]"
+        onClick={onClose}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          onClose();
+        }}
+      />
+      <div
+        ref={menuRef}
+        role="menu"
+        aria-label={t('message.actions')}
+        onKeyDown={handleKeyDown}
+        className="fixed z-[1900] min-w-[160px] rounded-xl border border-gray-200 bg-white py-1 shadow-xl"
+        style={{ left: placement.x, top: placement.y }}
+      >
+        {reactions && (
+          <div
+            role="group"
+            aria-label={t('reactions.quick')}
+            className="flex items-center gap-0.5 border-b border-gray-100 px-2 pb-1"
+          >
+            {reactions.emojis.map((emoji, index) => (
+              <button
+                key={emoji}
+                ref={(element) => {
+                  itemRefs.current[index] = element;
+                }}
+                role="menuitemcheckbox"
+                aria-checked={reactions.selected.includes(emoji)}
+                onClick={() => {
+                  onClose();
+                  reactions.onReact(emoji);
+                }}
+                className={cn(
+                  'rounded-full p-1.5 text-xl leading-none transition-transform',
+                  'hover:scale-125 focus:scale-125 focus:outline-none',
+                  reactions.selected.includes(emoji) && 'bg-blue-50'
+                )}
+              >
+                {emoji}
+              </button>
+            ))}
+            <button
+              ref={(element) => {
+                itemRefs.current[reactions.emojis.length] = element;
+              }}
+              role="menuitem"
+              onClick={reactions.onMore}
+              className="rounded-full p-1.5 text-gray-500 hover:bg-gray-100 focus:bg-gray-100 focus:outline-none"
+              aria-label={t('reactions.more')}
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path d="M12 5v14m-7-7h14" />
+              </svg>
+            </button>
+          </div>
+        )}
+        {actions.map((action, index) => (
+          <button
+            key={action.id}
+            ref={(element) => {
+              itemRefs.current[reactionCount + index] = element;
+            }}
+            role="menuitem"
+            onClick={() => {
+              onClose();
+              action.onSelect();
+            }}
+            className={cn(
+              'flex w-full items-center gap-3 px-4 py-2 text-sm transition-colors',
+              'hover:bg-gray-50 focus:bg-gray-100 focus:outline-none',
+              action.destructive ? 'text-red-500' : 'text-gray-700'
+            )}
+          >
+            <svg
+              className="w-4 h-4"
+              fill="none"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path d={action.icon} />
+            </svg>
+            {action.label}
+          </button>
+        ))}
+      </div>
+    </>,
+    document.body
+  );
+};
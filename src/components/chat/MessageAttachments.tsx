@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import type { Attachment } from '../../types/chat';
+import { cn } from '../../utils/cn';
+import { formatFileSize } from '../../utils/attachments';
+import { ImageViewer } from './ImageViewer';
+import { AudioPlayer } from './AudioPlayer';
+import { useI18n } from '../../hooks/useI18n';
+
+interface MessageAttachmentsProps {
+  attachments: Attachment[];
+  isUser: boolean;
+}
+
+/**
+ * 메시지 말풍선 안의 첨부 파일
+ * 이미지는 썸네일(탭하면 전체 화면), 음성은 재생기, 그 외 파일은 다운로드 칩
+ */
+export const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ attachments, isUser }) => {
+  const { t } = useI18n();
+  const [viewingImage, setViewingImage] = useState<Attachment | null>(null);
+  const images = attachments.filter((attachment) => attachment.kind === 'image');
+  const audios = attachments.filter((attachment) => attachment.kind === 'audio');
+  const files = attachments.filter((attachment) => attachment.kind === 'file');
+
+  return (
+    <div className="flex flex-col gap-2 mb-1">
+      {images.length > 0 && (
+        <div className={cn('grid gap-1', images.length > 1 ? 'grid-cols-2' : 'grid-cols-1')}>
+          {images.map((image) => (
+            <button
+              key={image.id}
+              onClick={() => setViewingImage(image)}
+              className="block overflow-hidden rounded-lg"
+              aria-label={t('attachments.view', { name: image.name })}
+            >
+              <img
+                src={image.url}
+                alt={image.name}
+                className={cn(
+                  'w-full object-cover',
+                  images.length > 1 ? 'h-28' : 'max-h-64'
+                )}
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      {audios.map((audio) => (
+        <AudioPlayer key={audio.id} attachment={audio} isUser={isUser} />
+      ))}
+
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={file.url}
+          download={file.name}
+          className={cn(
+            'flex items-center gap-2 rounded-lg px-3 py-2 transition-colors',
+            isUser ? 'bg-blue-400 hover:bg-blue-300' : 'bg-white hover:bg-gray-50'
+          )}
+        >
+          <svg
+            className="w-5 h-5 flex-shrink-0"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+          </svg>
+          <span className="min-w-0 flex-1 truncate text-sm">{file.name}</span>
+          <span className={cn('text-xs flex-shrink-0', isUser ? 'text-blue-100' : 'text-gray-500')}>
+            {formatFileSize(file.size)}
+          </span>
+        </a>
+      ))}
+
+      {viewingImage && (
+        <ImageViewer image={viewingImage} onClose={() => setViewingImage(null)} />
+      )}
+    </div>
+  );
+};
@@ -1,50 +1,294 @@
-import React, { useState, useRef, KeyboardEvent } from 'react';
-import { useChatStore } from '../../store/chatStore';
-import { sendMessage, getAssistantResponse } from '../../api/mockData';
+import React, { useEffect, useId, useMemo, useState, useRef, KeyboardEvent } from 'react';
+import { useChatStore, type Draft } from '../../store/chatStore';
+import { useOutboxStore } from '../../store/outboxStore';
+import { useToastStore } from '../../store/toastStore';
+import { stopAssistantReply } from '../../api/replyStream';
+import { AttachmentTray } from './AttachmentTray';
+import { ComposerTargetBar } from './ComposerTargetBar';
+import { VoiceRecordButton } from './VoiceRecordButton';
+import { CommandPalette } from './CommandPalette';
 import { cn } from '../../utils/cn';
+import { getMessagePreview } from '../../utils/messagePreview';
+import { createId } from '../../utils/id';
+import { hasReplies } from '../../utils/messageTree';
+import { useI18n } from '../../hooks/useI18n';
+import { useTypingNotifier } from '../../hooks/useTypingNotifier';
+import { useDraftAutosave } from '../../hooks/useDraftAutosave';
+import { useTransport } from '../../hooks/useTransport';
+import { getCommandOptionId, useCommandPalette } from '../../hooks/useCommandPalette';
+import { useComposerActions } from '../../hooks/useComposerActions';
+import { findCommand, formatCommandUsage, parseCommandArgs, parseCommandInput } from '../../commands/registry';
+import type { ChatCommand } from '../../commands/types';
+import { getComposerActionLabel } from '../../composerActions/registry';
+import type { ComposerAction } from '../../composerActions/types';
+import {
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_SIZE,
+  createAttachment,
+  createVoiceAttachment,
+  formatFileSize,
+  validateAttachmentFile,
+} from '../../utils/attachments';
+import type { Attachment, Message } from '../../types/chat';
+import type { VoiceRecording } from '../../utils/voiceRecorder';
 
-export const MessageInput: React.FC = () => {
-  const [input, setInput] = useState('');
-  const [isSending, setIsSending] = useState(false);
+interface MessageInputProps {
+  conversationId: string;
+  /** /search 명령으로 대화 내 검색을 연다 */
+  onOpenSearch?: (query?: string) => void;
+}
+
+export const MessageInput: React.FC<MessageInputProps> = ({ conversationId, onOpenSearch }) => {
+  const [input, setInput] = useState(() => useChatStore.getState().drafts[conversationId]?.content ?? '');
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [attachments, setAttachments] = useState<Attachment[]>(
+    () => useChatStore.getState().drafts[conversationId]?.attachments ?? []
+  );
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const { addMessage, updateMessage } = useChatStore();
+  const { t } = useI18n();
+  const transport = useTransport();
+  const paletteId = useId();
+  const palette = useCommandPalette(input);
+  const showToast = useToastStore((state) => state.showToast);
+  const { notifyTyping, stopTyping } = useTypingNotifier(conversationId);
+  const isStreaming = useChatStore((state) => Boolean(state.streaming[conversationId]));
+  const composerTarget = useChatStore((state) => state.composerTargets[conversationId]);
+  const targetMessage = useChatStore((state) =>
+    composerTarget ? state.messages[conversationId]?.find((msg) => msg.id === composerTarget.messageId) : undefined
+  );
+  // 뒤로 이어진 대화가 있는 메시지를 수정하면 그 자리에 새 갈래를 만든다
+  const isBranchingEdit = useChatStore((state) =>
+    composerTarget?.mode === 'edit' && hasReplies(state.messages[conversationId] ?? [], composerTarget.messageId)
+  );
+  const addMessage = useChatStore((state) => state.addMessage);
+  const selectBranch = useChatStore((state) => state.selectBranch);
+  const editMessage = useChatStore((state) => state.editMessage);
+  const setDraft = useChatStore((state) => state.setDraft);
+  const setComposerTarget = useChatStore((state) => state.setComposerTarget);
+  const enqueue = useOutboxStore((state) => state.enqueue);
+  const isEditing = composerTarget?.mode === 'edit';
+  const editingMessageId = isEditing ? composerTarget.messageId : null;
+  const replyToId = composerTarget?.mode === 'reply' ? composerTarget.messageId : undefined;
+  
+  // 수정 중인 내용은 초안이 아니다
+  const draft = useMemo<Draft | null>(
+    () => (isEditing ? null : { content: input, replyToId, attachments: attachments.length > 0 ? attachments : undefined }),
+    [isEditing, input, replyToId, attachments]
+  );
+  useDraftAutosave(conversationId, draft);
   
-  const handleSend = async () => {
-    if (!input.trim() || isSending) return;
+  // 초안에 남아 있던 답장 대상 복원 (원본이 남아 있을 때만)
+  useEffect(() => {
+    const { drafts, messages, composerTargets } = useChatStore.getState();
+    const draftReplyToId = drafts[conversationId]?.replyToId;
+    if (!draftReplyToId || composerTargets[conversationId]) return;
+    if (messages[conversationId]?.some((msg) => msg.id === draftReplyToId)) {
+      setComposerTarget(conversationId, { mode: 'reply', messageId: draftReplyToId });
+    }
+  }, [conversationId, setComposerTarget]);
+  
+  // 수정을 시작하면 입력창에 원래 내용을 채우고, 끝나면 작성 중이던 초안으로 되돌린다
+  useEffect(() => {
+    const { messages, drafts } = useChatStore.getState();
+    const editing = editingMessageId
+      ? messages[conversationId]?.find((msg) => msg.id === editingMessageId)
+      : undefined;
+    setInput(editing ? editing.content : drafts[conversationId]?.content ?? '');
+  }, [conversationId, editingMessageId]);
+  
+  useEffect(() => {
+    if (composerTarget) inputRef.current?.focus();
+  }, [composerTarget]);
+  
+  const handleStop = () => {
+    stopAssistantReply(conversationId);
+  };
+  
+  const handleCancelTarget = () => {
+    setComposerTarget(conversationId, null);
+  };
+  
+  const canSend = isEditing
+    ? input.trim().length > 0
+    : input.trim().length > 0 || attachments.length > 0;
+  
+  const handleFilesSelected = async (files: File[]) => {
+    const errors: string[] = [];
+    const validFiles = files.filter((file) => {
+      const error = validateAttachmentFile(file);
+      if (error === 'tooLarge') {
+        errors.push(t('attachments.tooLarge', { name: file.name, size: formatFileSize(MAX_ATTACHMENT_SIZE) }));
+      } else if (error === 'unsupportedType') {
+        errors.push(t('attachments.unsupportedType', { name: file.name }));
+      }
+      return !error;
+    });
+    
+    const available = MAX_ATTACHMENTS - attachments.length;
+    if (validFiles.length > available) {
+      errors.push(t('attachments.tooMany', { count: MAX_ATTACHMENTS }));
+    }
     
-    const messageContent = input.trim();
+    setAttachmentErrors(errors);
+    try {
+      const created = await Promise.all(validFiles.slice(0, Math.max(available, 0)).map(createAttachment));
+      setAttachments((current) => [...current, ...created].slice(0, MAX_ATTACHMENTS));
+    } catch (error) {
+      console.error('Failed to read attachment:', error);
+      setAttachmentErrors([...errors, t('attachments.readFailed')]);
+    }
+  };
+  
+  const handleRemoveAttachment = (id: string) => {
+    setAttachments((current) => current.filter((attachment) => attachment.id !== id));
+    setAttachmentErrors([]);
+  };
+  
+  /**
+   * 메시지는 아웃박스를 거쳐 전송되므로 오프라인이어도 바로 목록에 표시
+   * branchFrom을 주면 그 메시지의 다른 버전으로 보내고 새 갈래로 전환한다
+   */
+  const sendMessage = (messageContent: string, messageAttachments: Attachment[] | undefined, branchFrom?: Message) => {
+    const message: Message = {
+      id: createId(),
+      content: messageContent,
+      sender: 'user',
+      timestamp: new Date(),
+      status: 'sending',
+      attachments: messageAttachments,
+      ...(composerTarget?.mode === 'reply' && targetMessage && {
+        replyToId: targetMessage.id,
+        replyPreview: { sender: targetMessage.sender, content: getMessagePreview(targetMessage, t) },
+      }),
+      ...(branchFrom && {
+        parentId: branchFrom.parentId ?? null,
+        replyToId: branchFrom.replyToId,
+        replyPreview: branchFrom.replyPreview,
+      }),
+    };
+    setComposerTarget(conversationId, null);
+    addMessage(conversationId, message);
+    if (branchFrom) {
+      selectBranch(conversationId, message.id);
+    }
+    enqueue({
+      messageId: message.id,
+      conversationId,
+      content: messageContent,
+      attachments: messageAttachments,
+    });
+  };
+  
+  const clearInput = () => {
     setInput('');
-    setIsSending(true);
+    setDraft(conversationId, null);
+    stopTyping();
+  };
+  
+  // 명령 오류는 입력한 내용을 그대로 두고 안내만 한다
+  const runCommand = async (command: ChatCommand, rawArgs: string) => {
+    const { args, missing } = parseCommandArgs(command, rawArgs);
+    if (missing) {
+      showToast({ message: t('commands.missingArgument', { usage: formatCommandUsage(command, t) }) });
+      return;
+    }
     
+    clearInput();
     try {
-      const sentMessage = await sendMessage(messageContent);
-      addMessage(sentMessage);
-      updateMessage(sentMessage.id, { status: 'delivered' });
-      
-      const typingMessage = {
-        id: 'typing',
-        content: '...',
-        sender: 'assistant' as const,
-        timestamp: new Date(),
-        isTyping: true,
-      };
-      addMessage(typingMessage);
-      
-      const response = await getAssistantResponse(messageContent);
-      updateMessage('typing', response);
-      
+      await command.run({
+        conversationId,
+        args,
+        rawArgs,
+        transport,
+        t,
+        openSearch: (query) => onOpenSearch?.(query),
+      });
     } catch (error) {
-      console.error('Failed to send message:', error);
-    } finally {
-      setIsSending(false);
+      console.error(`Failed to run /${command.name}:`, error);
+      showToast({ message: error instanceof Error && error.message ? error.message : t('commands.failed') });
+    }
+  };
+  
+  // 자동완성에서 고른 명령은 인자가 필요하면 이름만 채우고, 아니면 바로 실행
+  const handleSelectCommand = (command: ChatCommand) => {
+    if (command.args?.length) {
+      setInput(`/${command.name} `);
+      inputRef.current?.focus();
+    } else {
+      runCommand(command, '');
+    }
+  };
+  
+  const handleSend = () => {
+    if (!canSend) return;
+    
+    if (editingMessageId) {
+      if (isBranchingEdit && targetMessage) {
+        sendMessage(input.trim(), targetMessage.attachments, targetMessage);
+      } else {
+        editMessage(conversationId, editingMessageId, input.trim());
+        setComposerTarget(conversationId, null);
+      }
+      return;
+    }
+    
+    const commandInput = parseCommandInput(input);
+    if (commandInput) {
+      const command = findCommand(commandInput.name);
+      if (command) {
+        runCommand(command, commandInput.rawArgs);
+      } else {
+        showToast({ message: t('commands.unknown', { name: commandInput.name }) });
+      }
+      return;
+    }
+    
+    // '//'로 시작하면 '/'로 시작하는 일반 메시지
+    const messageContent = input.trim().replace(/^\/\//, '/');
+    const messageAttachments = attachments.length > 0 ? attachments : undefined;
+    clearInput();
+    setAttachments([]);
+    setAttachmentErrors([]);
+    sendMessage(messageContent, messageAttachments);
+  };
+  
+  // 녹음한 음성은 입력창 내용과 별개로 바로 보낸다 (입력창이 비어 있을 때만 녹음할 수 있음)
+  const handleRecorded = async (recording: VoiceRecording) => {
+    setAttachmentErrors([]);
+    try {
+      sendMessage('', [await createVoiceAttachment(recording)]);
+    } catch (error) {
+      console.error('Failed to read recording:', error);
+      setAttachmentErrors([t('attachments.readFailed')]);
     }
   };
   
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (palette.isOpen && !isEditing) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        palette.moveActive(e.key === 'ArrowDown' ? 1 : -1);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        if (palette.activeCommand) handleSelectCommand(palette.activeCommand);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        palette.dismiss();
+        return;
+      }
+    }
+    
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && composerTarget) {
+      e.preventDefault();
+      handleCancelTarget();
     }
   };
   
@@ -57,10 +301,33 @@ export const MessageInput: React.FC = () => {
     textarea.style.height = `${newHeight}px`;
   };
   
-  const handleQuickLink = () => {
-    console.log('바로가기 클릭');
-    window.open('https://example.com', '_blank');
+  // 선택 영역을 바꾸고 커서를 넣은 텍스트 뒤로 옮긴다
+  const insertText = (text: string) => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+    
+    const { selectionStart, selectionEnd, value } = textarea;
+    const cursor = selectionStart + text.length;
+    setInput(value.slice(0, selectionStart) + text + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(cursor, cursor);
+      adjustTextareaHeight();
+    });
+  };
+  
+  const composerActions = useComposerActions({
+    conversationId,
+    isEditing,
+    attachments,
+    t,
+    insertText,
+    attachFiles: handleFilesSelected,
+  });
+  
+  const handleSelectAction = (action: ComposerAction) => {
     setIsMenuOpen(false);
+    composerActions.runAction(action);
   };
   
   return (
@@ -74,30 +341,62 @@ export const MessageInput: React.FC = () => {
           />
           <div className="absolute bottom-full left-0 right-0 bg-white border border-gray-200 rounded-t-lg shadow-lg z-20 mb-1">
             <div className="p-4">
-              <button
-                onClick={handleQuickLink}
-                className="flex items-center gap-2 w-full p-3 hover:bg-gray-50 rounded-lg transition-colors"
-              >
-                <svg
-                  className="w-5 h-5 text-gray-600"
-                  fill="none"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth="2"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-                </svg>
-                <span className="text-gray-700">바로가기</span>
-              </button>
+              <div className="grid grid-cols-3 gap-2">
+                {composerActions.actions.map((action) => (
+                  <button
+                    key={action.id}
+                    onClick={() => handleSelectAction(action)}
+                    className="flex flex-col items-center gap-1 p-3 hover:bg-gray-50 rounded-lg transition-colors"
+                  >
+                    <svg
+                      className="w-6 h-6 text-gray-600"
+                      fill="none"
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                    >
+                      <path d={action.icon} />
+                    </svg>
+                    <span className="text-xs text-gray-700">{getComposerActionLabel(action, t)}</span>
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
         </>
       )}
       
+      {palette.isOpen && !isEditing && (
+        <CommandPalette
+          id={paletteId}
+          commands={palette.matches}
+          activeIndex={palette.activeIndex}
+          onSelect={handleSelectCommand}
+          onActiveIndexChange={palette.setActiveIndex}
+        />
+      )}
+      
+      {composerTarget && targetMessage && (
+        <ComposerTargetBar
+          target={composerTarget}
+          message={targetMessage}
+          isBranching={isBranchingEdit}
+          onCancel={handleCancelTarget}
+        />
+      )}
+      
+      {!isEditing && (
+        <AttachmentTray
+          attachments={attachments}
+          errors={attachmentErrors}
+          onRemove={handleRemoveAttachment}
+        />
+      )}
+      
       {/* 입력 영역 */}
-      <div className="border-t border-gray-200 bg-white px-4 py-3">
+      <div className="relative border-t border-gray-200 bg-white px-4 py-3">
         <div className="flex items-end gap-2">
           {/* + 버튼 */}
           <button
@@ -107,7 +406,7 @@ export const MessageInput: React.FC = () => {
               'hover:bg-gray-100 active:scale-95',
               isMenuOpen ? 'bg-gray-100 rotate-45' : 'bg-white'
             )}
-            aria-label="More options"
+            aria-label={t('composer.moreOptions')}
           >
             <svg
               className="w-5 h-5 text-gray-600 transition-transform"
@@ -127,43 +426,78 @@ export const MessageInput: React.FC = () => {
             value={input}
             onChange={(e) => {
               setInput(e.target.value);
+              // 수정이나 명령 입력은 새 메시지 작성이 아니므로 입력 중 알림을 보내지 않는다
+              if (!isEditing) {
+                if (e.target.value && !e.target.value.startsWith('/')) {
+                  notifyTyping();
+                } else {
+                  stopTyping();
+                }
+              }
               adjustTextareaHeight();
             }}
             onKeyDown={handleKeyDown}
-            placeholder="메시지를 입력하세요..."
+            placeholder={t('composer.placeholder')}
+            aria-autocomplete="list"
+            aria-controls={palette.isOpen ? paletteId : undefined}
+            aria-activedescendant={palette.isOpen && !isEditing ? getCommandOptionId(paletteId, palette.activeIndex) : undefined}
             className={cn(
               'flex-1 resize-none rounded-2xl border border-gray-300',
               'px-4 py-2 focus:outline-none focus:border-blue-500',
               'min-h-[40px] max-h-[120px] transition-colors'
             )}
             rows={1}
-            disabled={isSending}
           />
           
-          <button
-            onClick={handleSend}
-            disabled={!input.trim() || isSending}
-            className={cn(
-              'rounded-full p-2 transition-all',
-              'disabled:opacity-50 disabled:cursor-not-allowed',
-              input.trim() && !isSending
-                ? 'bg-blue-500 text-white hover:bg-blue-600 active:scale-95'
-                : 'bg-gray-200 text-gray-400'
-            )}
-            aria-label="Send message"
-          >
-            <svg
-              className="w-5 h-5"
-              fill="none"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-              strokeWidth="2"
-              viewBox="0 0 24 24"
-              stroke="currentColor"
+          {/* 응답 중에도 입력한 내용이 있으면 바로 보낼 수 있다 */}
+          {isStreaming && !canSend ? (
+            <button
+              onClick={handleStop}
+              className={cn(
+                'rounded-full p-2 transition-all',
+                'bg-gray-900 text-white hover:bg-gray-700 active:scale-95'
+              )}
+              aria-label={t('composer.stop')}
             >
-              <path d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-            </svg>
-          </button>
+              <svg
+                className="w-5 h-5"
+                fill="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <rect x="7" y="7" width="10" height="10" rx="1.5" />
+              </svg>
+            </button>
+          ) : !canSend && !isEditing ? (
+            <VoiceRecordButton
+              onRecorded={handleRecorded}
+              onError={(message) => setAttachmentErrors([message])}
+            />
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!canSend}
+              className={cn(
+                'rounded-full p-2 transition-all',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                canSend
+                  ? 'bg-blue-500 text-white hover:bg-blue-600 active:scale-95'
+                  : 'bg-gray-200 text-gray-400'
+              )}
+              aria-label={t('composer.send')}
+            >
+              <svg
+                className="w-5 h-5"
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,57 +1,381 @@
-import React from 'react';
+import React, { memo, useCallback, useMemo, useRef, useState } from 'react';
 import type { Message } from '../../types/chat';
 import { cn } from '../../utils/cn';
+import { copyToClipboard } from '../../utils/clipboard';
+import { QUICK_REACTIONS } from '../../utils/emoji';
+import { findPreviewUrl } from '../../utils/linkify';
+import { USER_PARTICIPANT_ID } from '../../api/transport';
+import { useLongPress } from '../../hooks/useLongPress';
+import { useToastStore } from '../../store/toastStore';
+import { useI18n } from '../../hooks/useI18n';
+import { MarkdownContent } from './MarkdownContent';
+import { MessageAttachments } from './MessageAttachments';
+import { QuotedMessage } from './QuotedMessage';
+import { MessageActionsMenu, type MessageAction } from './MessageActionsMenu';
+import { MessageReactions } from './MessageReactions';
+import { EmojiPicker } from './EmojiPicker';
+import { BranchSwitcher } from './BranchSwitcher';
+import { LinkifiedText } from './LinkifiedText';
+import { LinkPreviewCard } from './LinkPreviewCard';
+
+const ACTION_ICONS = {
+  copy: 'M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z',
+  reply: 'M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6',
+  linkPreview: 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1',
+  regenerate: 'M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15',
+  edit: 'M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z',
+  delete: 'M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16',
+};
 
 interface MessageItemProps {
   message: Message;
+  /** 사용자 메시지도 마크다운으로 렌더링할지 여부 (기본: 일반 텍스트) */
+  renderUserMarkdown?: boolean;
+  /** 전송 실패한 메시지 다시 보내기 */
+  onRetry?: (message: Message) => void;
+  /** 메시지 삭제 (실행 취소 가능) */
+  onDelete?: (message: Message) => void;
+  /** 내 메시지 수정 시작 */
+  onEdit?: (message: Message) => void;
+  /** 이 메시지에 답장 */
+  onReply?: (message: Message) => void;
+  /** 내 반응 추가/취소 */
+  onToggleReaction?: (message: Message, emoji: string) => void;
+  /** 같은 자리의 다른 버전들 (자신 포함). 있으면 버전 전환을 표시 */
+  variants?: Message[];
+  /** 다른 버전으로 전환 */
+  onShowVariant?: (messageId: string) => void;
+  /** 응답 다시 생성 (가장 최근 응답에만) */
+  onRegenerate?: (message: Message) => void;
+  /** 링크 미리보기 숨기기/다시 표시 */
+  onToggleLinkPreview?: (message: Message) => void;
+  /** 답장 원본 (로드되어 있는 경우) */
+  replyTo?: Message;
+  /** 인용을 눌렀을 때 원본으로 이동 */
+  onJumpToMessage?: (messageId: string) => void;
+  /** 인용에서 이동해 온 메시지나 현재 검색 결과 강조 */
+  isHighlighted?: boolean;
+  /** 하이라이트할 검색어 */
+  highlightTerms?: string[];
+  /** 같은 사람이 연달아 보낸 메시지 묶음의 처음/마지막 여부 */
+  isGroupStart?: boolean;
+  isGroupEnd?: boolean;
 }
 
-export const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
+/**
+ * 메시지 말풍선
+ * 목록이 다시 그려져도 props(메시지 객체 포함)가 그대로인 항목은 건너뛰도록 memo
+ * 수신 확인처럼 한 메시지만 바뀌면 그 항목만 다시 렌더링된다
+ */
+export const MessageItem: React.FC<MessageItemProps> = memo(({
+  message,
+  renderUserMarkdown = false,
+  onRetry,
+  onDelete,
+  onEdit,
+  onReply,
+  onToggleReaction,
+  variants,
+  onShowVariant,
+  onRegenerate,
+  onToggleLinkPreview,
+  replyTo,
+  onJumpToMessage,
+  isHighlighted = false,
+  highlightTerms,
+  isGroupStart = true,
+  isGroupEnd = true,
+}) => {
+  const [showFailedActions, setShowFailedActions] = useState(false);
+  const [showEditHistory, setShowEditHistory] = useState(false);
+  const [menuPosition, setMenuPosition] = useState<{ x: number; y: number } | null>(null);
+  const [pickerPosition, setPickerPosition] = useState<{ x: number; y: number } | null>(null);
+  const bubbleRef = useRef<HTMLDivElement>(null);
+  const showToast = useToastStore((state) => state.showToast);
+  const { t, formatTime } = useI18n();
   const isUser = message.sender === 'user';
+  const isFailed = message.status === 'error';
+  const isPending = message.status === 'streaming';
+  const shouldRenderMarkdown = !isUser || renderUserMarkdown;
+  // 묶음 안에서는 시각을 마지막 메시지에만 표시
+  const showMeta = isGroupEnd || isFailed || Boolean(message.editedAt);
+  // 서버에 도달하지 않은 메시지에는 반응할 수 없다
+  const canReact = Boolean(onToggleReaction) && !isPending && message.status !== 'sending' && !isFailed;
+  // 스트리밍 중에는 주소가 아직 완성되지 않았을 수 있다
+  const previewUrl = useMemo(() => (isPending ? null : findPreviewUrl(message.content)), [isPending, message.content]);
+  const myReactions = useMemo(
+    () => Object.entries(message.reactions ?? {})
+      .filter(([, participants]) => participants.includes(USER_PARTICIPANT_ID))
+      .map(([emoji]) => emoji),
+    [message.reactions]
+  );
+  
+  const openMenu = useCallback((point: { x: number; y: number }) => {
+    if (!isPending) setMenuPosition(point);
+  }, [isPending]);
+  
+  const longPressHandlers = useLongPress(openMenu);
+  
+  // 키보드로 열 때는 말풍선 아래에 띄운다
+  const openMenuFromBubble = () => {
+    const rect = bubbleRef.current?.getBoundingClientRect();
+    if (rect) openMenu({ x: rect.left, y: rect.bottom + 4 });
+  };
+  
+  const closeMenu = () => {
+    setMenuPosition(null);
+    bubbleRef.current?.focus();
+  };
+  
+  const closePicker = () => {
+    setPickerPosition(null);
+    bubbleRef.current?.focus();
+  };
+  
+  const handleReact = (emoji: string) => onToggleReaction?.(message, emoji);
+  
+  const handleCopy = async () => {
+    const copied = await copyToClipboard(message.content);
+    showToast({ message: t(copied ? 'message.copied' : 'message.copyFailed') }, 2000);
+  };
+  
+  const actions: MessageAction[] = [
+    ...(message.content ? [{ id: 'copy', label: t('common.copy'), icon: ACTION_ICONS.copy, onSelect: handleCopy }] : []),
+    ...(onReply ? [{ id: 'reply', label: t('message.reply'), icon: ACTION_ICONS.reply, onSelect: () => onReply(message) }] : []),
+    ...(onRegenerate
+      ? [{ id: 'regenerate', label: t('message.regenerate'), icon: ACTION_ICONS.regenerate, onSelect: () => onRegenerate(message) }]
+      : []),
+    ...(onEdit && isUser && message.content && message.status !== 'sending' && !isFailed
+      ? [{ id: 'edit', label: t('message.edit'), icon: ACTION_ICONS.edit, onSelect: () => onEdit(message) }]
+      : []),
+    ...(onToggleLinkPreview && previewUrl
+      ? [{
+          id: 'linkPreview',
+          label: t(message.hideLinkPreview ? 'linkPreview.show' : 'linkPreview.hide'),
+          icon: ACTION_ICONS.linkPreview,
+          onSelect: () => onToggleLinkPreview(message),
+        }]
+      : []),
+    ...(onDelete
+      ? [{ id: 'delete', label: t('common.delete'), icon: ACTION_ICONS.delete, destructive: true, onSelect: () => onDelete(message) }]
+      : []),
+  ];
   
-  const formatTime = (date: Date) => {
-    return new Date(date).toLocaleTimeString('ko-KR', {
-      hour: '2-digit',
-      minute: '2-digit',
-    });
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.target !== e.currentTarget) return;
+    
+    if (e.key === 'ContextMenu' || (e.key === 'F10' && e.shiftKey)) {
+      e.preventDefault();
+      openMenuFromBubble();
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (isFailed) {
+        setShowFailedActions(!showFailedActions);
+      } else {
+        openMenuFromBubble();
+      }
+    }
   };
   
   return (
     <div
       className={cn(
-        'flex w-full mb-4',
-        isUser ? 'justify-end' : 'justify-start'
+        'flex flex-col w-full',
+        isGroupEnd ? 'mb-4' : 'mb-1',
+        isUser ? 'items-end' : 'items-start'
       )}
     >
       <div
+        ref={bubbleRef}
         className={cn(
-          'max-w-[70%] rounded-2xl px-4 py-2',
-          isUser
-            ? 'bg-blue-500 text-white rounded-br-sm'
-            : 'bg-gray-100 text-gray-900 rounded-bl-sm'
+          'max-w-[70%] rounded-2xl px-4 py-2 [-webkit-touch-callout:none]',
+          'focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-300',
+          isUser ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-900',
+          // 말풍선 꼬리는 묶음의 마지막 메시지에만
+          isGroupEnd && (isUser ? 'rounded-ee-sm' : 'rounded-es-sm'),
+          !isGroupStart && (isUser ? 'rounded-se-md' : 'rounded-ss-md'),
+          isFailed && 'bg-blue-300 cursor-pointer',
+          'transition-shadow duration-500',
+          isHighlighted && 'ring-2 ring-yellow-400 ring-offset-2'
         )}
+        onClick={isFailed ? () => setShowFailedActions(!showFailedActions) : undefined}
+        onContextMenu={(e) => {
+          if (isPending) return;
+          e.preventDefault();
+          openMenu({ x: e.clientX, y: e.clientY });
+        }}
+        onKeyDown={handleKeyDown}
+        {...longPressHandlers}
+        role="button"
+        tabIndex={0}
+        aria-haspopup="menu"
+        aria-expanded={isFailed ? showFailedActions : undefined}
       >
-        <p className="whitespace-pre-wrap break-words">{message.content}</p>
-        <div
-          className={cn(
-            'text-xs mt-1 flex items-center gap-1',
-            isUser ? 'text-blue-100' : 'text-gray-500'
+        <QuotedMessage
+          message={message}
+          original={replyTo}
+          isUser={isUser}
+          onJump={onJumpToMessage}
+        />
+        {message.attachments && message.attachments.length > 0 && (
+          <MessageAttachments attachments={message.attachments} isUser={isUser} />
+        )}
+        {message.content && (shouldRenderMarkdown ? (
+          <MarkdownContent content={message.content} highlightTerms={highlightTerms} />
+        ) : (
+          <p className="whitespace-pre-wrap break-words">
+            <LinkifiedText text={message.content} terms={highlightTerms} />
+          </p>
+        ))}
+        {previewUrl && !message.hideLinkPreview && (
+          <LinkPreviewCard
+            url={previewUrl}
+            isUser={isUser}
+            onHide={onToggleLinkPreview && (() => onToggleLinkPreview(message))}
+          />
+        )}
+        {message.status === 'streaming' && (
+          <span className="inline-block w-1.5 h-4 align-middle bg-current animate-pulse" />
+        )}
+        {showMeta && (
+          <div
+            className={cn(
+              'text-xs mt-1 flex items-center gap-1',
+              isUser ? 'text-blue-100' : 'text-gray-500'
+            )}
+          >
+            {isGroupEnd && <span>{formatTime(message.timestamp)}</span>}
+            {message.editedAt && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowEditHistory(!showEditHistory);
+                }}
+                className="hover:underline"
+                aria-expanded={showEditHistory}
+              >
+                {t('message.edited')}
+              </button>
+            )}
+            {isUser && message.status && message.status !== 'streaming' && (
+              <span
+                className="ms-1"
+                aria-label={message.status === 'error' ? t('message.sendFailed') : t(`message.status.${message.status}`)}
+              >
+                {message.status === 'sending' && '⏱'}
+                {message.status === 'sent' && '✓'}
+                {message.status === 'delivered' && '✓✓'}
+                {message.status === 'read' && (
+                  <span className="text-blue-200">✓✓</span>
+                )}
+                {message.status === 'error' && '⚠️'}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+      
+      {message.reactions && (
+        <MessageReactions
+          reactions={message.reactions}
+          onToggle={handleReact}
+          onOpenPicker={canReact ? (anchor) => setPickerPosition({ x: anchor.left, y: anchor.bottom + 4 }) : undefined}
+        />
+      )}
+      
+      {((variants && onShowVariant) || onRegenerate) && (
+        <div className="flex items-center gap-1 mt-1">
+          {variants && onShowVariant && (
+            <BranchSwitcher
+              index={variants.findIndex((variant) => variant.id === message.id)}
+              count={variants.length}
+              onSelect={(index) => onShowVariant(variants[index].id)}
+            />
           )}
-        >
-          <span>{formatTime(message.timestamp)}</span>
-          {isUser && message.status && (
-            <span className="ml-1">
-              {message.status === 'sending' && '⏱'}
-              {message.status === 'sent' && '✓'}
-              {message.status === 'delivered' && '✓✓'}
-              {message.status === 'read' && (
-                <span className="text-blue-200">✓✓</span>
-              )}
-              {message.status === 'error' && '⚠️'}
-            </span>
+          {onRegenerate && (
+            <button
+              onClick={() => onRegenerate(message)}
+              className="rounded p-1 text-gray-500 hover:bg-gray-100 transition-colors"
+              aria-label={t('message.regenerate')}
+            >
+              <svg
+                className="w-4 h-4"
+                fill="none"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth="2"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <path d={ACTION_ICONS.regenerate} />
+              </svg>
+            </button>
           )}
         </div>
-      </div>
+      )}
+      
+      {/* 수정 이력 (최신순) */}
+      {showEditHistory && message.editHistory && message.editHistory.length > 0 && (
+        <div className="max-w-[70%] mt-1 rounded-lg border border-gray-200 bg-white px-3 py-2 text-xs text-gray-600">
+          <p className="mb-1 font-medium text-gray-700">{t('message.editHistory')}</p>
+          <ul className="space-y-1">
+            {[...message.editHistory].reverse().map((edit, index) => (
+              <li key={`${index}-${new Date(edit.editedAt).getTime()}`}>
+                <span className="text-gray-400 me-2">{formatTime(edit.editedAt)}</span>
+                <span className="whitespace-pre-wrap break-words">{edit.content}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      
+      {menuPosition && (
+        <MessageActionsMenu
+          position={menuPosition}
+          actions={actions}
+          reactions={canReact ? {
+            emojis: QUICK_REACTIONS,
+            selected: myReactions,
+            onReact: handleReact,
+            onMore: () => {
+              setMenuPosition(null);
+              setPickerPosition(menuPosition);
+            },
+          } : undefined}
+          onClose={closeMenu}
+        />
+      )}
+      
+      {pickerPosition && (
+        <EmojiPicker
+          position={pickerPosition}
+          selected={myReactions}
+          onSelect={handleReact}
+          onClose={closePicker}
+        />
+      )}
+      
+      {/* 전송 실패 시 탭하면 재전송/삭제 */}
+      {isFailed && showFailedActions && (
+        <div className="flex items-center gap-2 mt-1 text-xs">
+          <span className="text-red-500">{t('message.sendFailed')}</span>
+          <button
+            onClick={() => {
+              setShowFailedActions(false);
+              onRetry?.(message);
+            }}
+            className="px-2 py-1 rounded-full bg-gray-100 text-gray-700 hover:bg-gray-200 transition-colors"
+          >
+            {t('message.retry')}
+          </button>
+          <button
+            onClick={() => onDelete?.(message)}
+            className="px-2 py-1 rounded-full bg-gray-100 text-red-500 hover:bg-gray-200 transition-colors"
+          >
+            {t('common.delete')}
+          </button>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+});
@@ -1,63 +1,199 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { MessageItem } from './MessageItem';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { VariableSizeList, type ListOnItemsRenderedProps } from 'react-window';
+import { MessageListRow, type MessageListRowData } from './MessageListRow';
+import { buildMessageListRows, findMessageRowIndex } from './messageListRows';
 import { PullToRefresh } from './PullToRefresh';
 import { FloatingTimeIndicator } from './FloatingTimeIndicator';
 import { useChatStore } from '../../store/chatStore';
+import { useOutboxStore } from '../../store/outboxStore';
+import { useToastStore } from '../../store/toastStore';
+import { usePresenceStore } from '../../store/presenceStore';
 import { usePullToRefresh } from '../../hooks/usePullToRefresh';
-import { loadMoreMessages } from '../../api/mockData';
+import { useTransport } from '../../hooks/useTransport';
+import { useElementSize } from '../../hooks/useElementSize';
+import { useSeenMessages } from '../../hooks/useSeenMessages';
+import { useI18n } from '../../hooks/useI18n';
+import { useMessageTree } from '../../hooks/useMessageTree';
 import { cn } from '../../utils/cn';
+import { isSameDay } from '../../utils/date';
+import { USER_PARTICIPANT_ID } from '../../api/transport';
+import { regenerateAssistantReply } from '../../api/replyStream';
+import type { Message } from '../../types/chat';
 
-export const MessageList: React.FC = () => {
-  const { messages, isLoading, hasMore, prependMessages, setLoading, setHasMore } = useChatStore();
-  const scrollContainerRef = useRef<HTMLDivElement>(null);
-  const bottomRef = useRef<HTMLDivElement>(null);
-  const [isUserScrolling, setIsUserScrolling] = useState(false);
+/** 아직 측정되지 않은 행의 예상 높이 */
+const ESTIMATED_ROW_HEIGHT = 72;
+
+/** 바닥에서 이 거리 안이면 바닥에 붙어 있는 것으로 간주 */
+const BOTTOM_THRESHOLD = 100;
+
+/** 답장 원본을 찾기 위해 이전 메시지를 불러올 최대 페이지 수 */
+const MAX_JUMP_PAGES = 10;
+
+const HIGHLIGHT_DURATION_MS = 2000;
+
+const NO_SEARCH_TERMS: string[] = [];
+
+interface MessageListProps {
+  conversationId: string;
+  /** 검색 중이면 일치 부분을 하이라이트 */
+  searchTerms?: string[];
+  /** 현재 선택된 검색 결과. 바뀌면 그 메시지로 스크롤 */
+  activeSearchMessageId?: string | null;
+}
+
+export const MessageList: React.FC<MessageListProps> = ({
+  conversationId,
+  searchTerms = NO_SEARCH_TERMS,
+  activeSearchMessageId = null,
+}) => {
+  const { thread: messages, variants } = useMessageTree(conversationId);
+  const hasMore = useChatStore((state) => state.hasMore[conversationId] ?? true);
+  const isLoading = useChatStore((state) => state.isLoading);
+  const isStreaming = useChatStore((state) => Boolean(state.streaming[conversationId]));
+  const isTyping = usePresenceStore((state) => Boolean(state.typing[conversationId]));
+  const lastSeenAt = useChatStore((state) => state.lastSeenAt[conversationId]);
+  const prependMessages = useChatStore((state) => state.prependMessages);
+  const setLoading = useChatStore((state) => state.setLoading);
+  const setHasMore = useChatStore((state) => state.setHasMore);
+  const updateMessage = useChatStore((state) => state.updateMessage);
+  const deleteMessage = useChatStore((state) => state.deleteMessage);
+  const restoreMessage = useChatStore((state) => state.restoreMessage);
+  const selectBranch = useChatStore((state) => state.selectBranch);
+  const setComposerTarget = useChatStore((state) => state.setComposerTarget);
+  const addReaction = useChatStore((state) => state.addReaction);
+  const removeReaction = useChatStore((state) => state.removeReaction);
+  const enqueue = useOutboxStore((state) => state.enqueue);
+  const removeOutboxItem = useOutboxStore((state) => state.removeItem);
+  const showToast = useToastStore((state) => state.showToast);
+  const transport = useTransport();
+  const { t } = useI18n();
+  const { ref: sizeRef, width, height } = useElementSize<HTMLDivElement>();
+  const listRef = useRef<VariableSizeList<MessageListRowData>>(null);
+  const scrollContainerRef = useRef<HTMLDivElement | null>(null);
+  const rowHeightsRef = useRef<Map<string, number>>(new Map());
+  const visibleStartIndexRef = useRef(0);
+  const isAtBottomRef = useRef(true);
+  const scrollAnchorRef = useRef<{ key: string; offset: number } | null>(null);
+  const pendingJumpRef = useRef<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const highlightTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
   const [showScrollButton, setShowScrollButton] = useState(false);
-  const [lastRefreshTime, setLastRefreshTime] = useState<Date | null>(null);
-  const [showTimeIndicator, setShowTimeIndicator] = useState(false);
-  const scrollTimeoutRef = useRef<NodeJS.Timeout>();
-  const timeIndicatorTimeoutRef = useRef<NodeJS.Timeout>();
-  
+  const [topVisibleDate, setTopVisibleDate] = useState<Date | null>(null);
+  const [isDateDividerVisible, setIsDateDividerVisible] = useState(true);
+  const [isUnreadDividerAbove, setIsUnreadDividerAbove] = useState(false);
+  const hasJumpedToUnreadRef = useRef(false);
+  const observeSeen = useSeenMessages(conversationId, scrollContainerRef);
+
+  // 들어올 때의 읽은 위치로 구분선을 정하고, 이번 방문 동안은 읽어도 그 자리에 둔다
+  const [entrySeenAt] = useState(() => useChatStore.getState().lastSeenAt[conversationId]);
+  const [openedAt] = useState(() => Date.now());
+  const firstUnreadId = useMemo(() => {
+    // 처음 여는 대화는 기준이 없으므로 표시하지 않음
+    if (entrySeenAt === undefined) return null;
+    return messages.find((message) => {
+      const time = new Date(message.timestamp).getTime();
+      return message.sender !== 'user' && time > entrySeenAt && time <= openedAt;
+    })?.id ?? null;
+  }, [messages, entrySeenAt, openedAt]);
+
+  // 아직 화면에서 보지 못한 상대 메시지 수
+  const unseenCount = useMemo(
+    () =>
+      lastSeenAt === undefined
+        ? 0
+        : messages.filter(
+            (message) => message.sender !== 'user' && new Date(message.timestamp).getTime() > lastSeenAt
+          ).length,
+    [messages, lastSeenAt]
+  );
+
+  // 가장 최근 응답만 앞의 내 메시지에 대해 다시 받을 수 있다
+  const regenerableId = useMemo(() => {
+    if (isStreaming) return null;
+    const index = messages.map((message) => message.sender).lastIndexOf('assistant');
+    const hasPrompt = messages.slice(0, Math.max(index, 0)).some((message) => message.sender === 'user');
+    return hasPrompt ? messages[index].id : null;
+  }, [messages, isStreaming]);
+
+  const rows = useMemo(
+    () => buildMessageListRows({ messages, variants, regenerableId, isLoading, hasMore, isTyping, firstUnreadId }),
+    [messages, variants, regenerableId, isLoading, hasMore, isTyping, firstUnreadId]
+  );
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+
+  const getRowHeight = useCallback(
+    (index: number) => rowHeightsRef.current.get(rowsRef.current[index]?.key) ?? ESTIMATED_ROW_HEIGHT,
+    []
+  );
+
+  const getRowOffset = useCallback((index: number) => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) {
+      offset += getRowHeight(i);
+    }
+    return offset;
+  }, [getRowHeight]);
+
+  const scrollToBottom = useCallback((smooth = true) => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    container.scrollTo({
+      top: container.scrollHeight,
+      behavior: smooth ? 'smooth' : 'auto',
+    });
+  }, []);
+
+  const handleMeasure = useCallback((index: number, key: string, rowHeight: number) => {
+    const previousHeight = rowHeightsRef.current.get(key) ?? ESTIMATED_ROW_HEIGHT;
+    if (rowHeightsRef.current.get(key) === rowHeight) return;
+
+    rowHeightsRef.current.set(key, rowHeight);
+    listRef.current?.resetAfterIndex(index, true);
+
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    if (isAtBottomRef.current) {
+      // 스트리밍 등으로 마지막 메시지가 커져도 바닥에 붙어 있도록
+      requestAnimationFrame(() => scrollToBottom(false));
+    } else if (index < visibleStartIndexRef.current) {
+      // 보이는 영역 위쪽 행의 높이가 바뀌면 그만큼 보정해 화면이 튀지 않게 한다
+      container.scrollTop += rowHeight - previousHeight;
+    }
+  }, [scrollToBottom]);
+
   const handleRefresh = useCallback(async () => {
     if (!hasMore || messages.length === 0) return;
-    
+
     setLoading(true);
     try {
-      const firstMessageId = messages[0]?.id;
-      const newMessages = await loadMoreMessages(firstMessageId);
-      
+      // 다른 갈래까지 포함해 가장 오래된 메시지 이전부터
+      const firstMessageId = useChatStore.getState().messages[conversationId]?.[0]?.id;
+      const newMessages = await transport.fetchHistory(conversationId, firstMessageId);
+
       if (newMessages.length === 0) {
-        setHasMore(false);
+        setHasMore(conversationId, false);
       } else {
-        const previousHeight = scrollContainerRef.current?.scrollHeight || 0;
-        prependMessages(newMessages);
-        
-        requestAnimationFrame(() => {
-          if (scrollContainerRef.current) {
-            const newHeight = scrollContainerRef.current.scrollHeight;
-            const heightDiff = newHeight - previousHeight;
-            scrollContainerRef.current.scrollTop = heightDiff;
-          }
-        });
-      }
-      
-      setLastRefreshTime(new Date());
-      setShowTimeIndicator(true);
-      
-      if (timeIndicatorTimeoutRef.current) {
-        clearTimeout(timeIndicatorTimeoutRef.current);
+        // 지금 맨 위에 보이는 행을 기준으로 prepend 후 위치를 복원
+        const anchorIndex = visibleStartIndexRef.current;
+        const anchorRow = rowsRef.current[anchorIndex];
+        if (anchorRow && scrollContainerRef.current) {
+          scrollAnchorRef.current = {
+            key: anchorRow.key,
+            offset: getRowOffset(anchorIndex) - scrollContainerRef.current.scrollTop,
+          };
+        }
+        prependMessages(conversationId, newMessages);
       }
-      timeIndicatorTimeoutRef.current = setTimeout(() => {
-        setShowTimeIndicator(false);
-      }, 3000);
-      
     } catch (error) {
       console.error('Failed to load more messages:', error);
     } finally {
       setLoading(false);
     }
-  }, [hasMore, messages, setLoading, setHasMore, prependMessages]);
-  
+  }, [conversationId, hasMore, messages, transport, setLoading, setHasMore, prependMessages, getRowOffset]);
+
   const {
     containerRef,
     isPulling,
@@ -67,116 +203,382 @@ export const MessageList: React.FC = () => {
   } = usePullToRefresh({
     onRefresh: handleRefresh,
   });
-  
-  useEffect(() => {
-    containerRef.current = scrollContainerRef.current;
+
+  // react-window의 스크롤 요소를 pull-to-refresh와 공유
+  const outerRef = useCallback((node: HTMLDivElement | null) => {
+    scrollContainerRef.current = node;
+    containerRef.current = node;
   }, [containerRef]);
-  
-  const scrollToBottom = (smooth = true) => {
-    bottomRef.current?.scrollIntoView({
-      behavior: smooth ? 'smooth' : 'auto',
-    });
-  };
-  
-  useEffect(() => {
-    if (!isUserScrolling) {
-      scrollToBottom();
+
+  // 안 읽은 메시지가 있으면 바닥 대신 구분선 위치에서 시작 (아래 효과보다 먼저 실행되어야 함)
+  useLayoutEffect(() => {
+    if (!firstUnreadId || hasJumpedToUnreadRef.current) return;
+    hasJumpedToUnreadRef.current = true;
+    isAtBottomRef.current = false;
+    pendingJumpRef.current = firstUnreadId;
+  }, [firstUnreadId]);
+
+  // 행 구성이 바뀌면 인덱스 기반 위치 캐시를 비우고 스크롤 위치를 맞춘다
+  useLayoutEffect(() => {
+    listRef.current?.resetAfterIndex(0, true);
+
+    const jumpTargetId = pendingJumpRef.current;
+    if (jumpTargetId) {
+      const jumpIndex = findMessageRowIndex(rows, jumpTargetId);
+      if (jumpIndex >= 0) {
+        pendingJumpRef.current = null;
+        scrollAnchorRef.current = null;
+        listRef.current?.scrollToItem(jumpIndex, 'center');
+        return;
+      }
     }
-  }, [messages.length, isUserScrolling]);
-  
-  useEffect(() => {
+
+    const anchor = scrollAnchorRef.current;
     const container = scrollContainerRef.current;
-    if (!container) return;
-    
-    const handleScroll = () => {
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current);
+    if (anchor && container) {
+      scrollAnchorRef.current = null;
+      const anchorIndex = rows.findIndex((row) => row.key === anchor.key);
+      if (anchorIndex >= 0) {
+        container.scrollTop = getRowOffset(anchorIndex) - anchor.offset;
       }
-      
-      const { scrollTop, scrollHeight, clientHeight } = container;
-      const isAtBottom = scrollHeight - scrollTop - clientHeight < 100;
-      
-      setShowScrollButton(!isAtBottom);
-      setIsUserScrolling(true);
-      
-      scrollTimeoutRef.current = setTimeout(() => {
-        if (isAtBottom) {
-          setIsUserScrolling(false);
-        }
-      }, 150);
-    };
-    
-    container.addEventListener('scroll', handleScroll);
+      return;
+    }
+
+    if (isAtBottomRef.current) {
+      scrollToBottom(false);
+    }
+  }, [rows, getRowOffset, scrollToBottom]);
+
+  // 목록 크기가 처음 정해질 때 바닥으로
+  useLayoutEffect(() => {
+    if (height > 0 && isAtBottomRef.current) {
+      scrollToBottom(false);
+    }
+  }, [height, scrollToBottom]);
+
+  useEffect(() => {
     return () => {
-      container.removeEventListener('scroll', handleScroll);
-      if (scrollTimeoutRef.current) {
-        clearTimeout(scrollTimeoutRef.current);
-      }
-      if (timeIndicatorTimeoutRef.current) {
-        clearTimeout(timeIndicatorTimeoutRef.current);
+      if (highlightTimeoutRef.current) {
+        clearTimeout(highlightTimeoutRef.current);
       }
     };
   }, []);
-  
+
+  const handleScroll = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    const isAtBottom = scrollHeight - scrollTop - clientHeight < BOTTOM_THRESHOLD;
+
+    isAtBottomRef.current = isAtBottom;
+    setShowScrollButton(!isAtBottom);
+  }, []);
+
+  const handleItemsRendered = useCallback(({ visibleStartIndex }: ListOnItemsRenderedProps) => {
+    visibleStartIndexRef.current = visibleStartIndex;
+
+    const unreadIndex = rowsRef.current.findIndex((row) => row.type === 'unread');
+    setIsUnreadDividerAbove(unreadIndex >= 0 && visibleStartIndex > unreadIndex);
+
+    const visibleRows = rowsRef.current.slice(visibleStartIndex);
+    const topMessageIndex = visibleRows.findIndex((row) => row.type === 'message');
+    const topMessageRow = visibleRows[topMessageIndex];
+    if (topMessageRow?.type !== 'message') return;
+
+    // 그 날의 구분선이 화면 위로 지나가면 상단 고정 날짜가 대신한다
+    setIsDateDividerVisible(visibleRows.slice(0, topMessageIndex).some((row) => row.type === 'date'));
+
+    const date = topMessageRow.message.timestamp;
+    setTopVisibleDate((current) => (current && isSameDay(current, date) ? current : date));
+  }, []);
+
+  const handleRetry = useCallback((message: Message) => {
+    updateMessage(conversationId, message.id, { status: 'sending' });
+    enqueue({
+      messageId: message.id,
+      conversationId,
+      content: message.content,
+      attachments: message.attachments,
+    });
+  }, [conversationId, updateMessage, enqueue]);
+
+  // 삭제 후 토스트에서 실행 취소하면 원래 위치로 되돌린다
+  const handleDelete = useCallback((message: Message) => {
+    const index = useChatStore.getState().messages[conversationId]?.findIndex((msg) => msg.id === message.id) ?? -1;
+    if (index < 0) return;
+
+    removeOutboxItem(message.id);
+    deleteMessage(conversationId, message.id);
+    showToast({
+      message: t('message.deleted'),
+      action: {
+        label: t('common.undo'),
+        onClick: () => {
+          restoreMessage(conversationId, message, index);
+          if (message.status === 'sending') {
+            enqueue({
+              messageId: message.id,
+              conversationId,
+              content: message.content,
+              attachments: message.attachments,
+            });
+          }
+        },
+      },
+    });
+  }, [conversationId, deleteMessage, restoreMessage, removeOutboxItem, enqueue, showToast, t]);
+
+  const highlightMessage = useCallback((messageId: string) => {
+    setHighlightedMessageId(messageId);
+    if (highlightTimeoutRef.current) {
+      clearTimeout(highlightTimeoutRef.current);
+    }
+    highlightTimeoutRef.current = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION_MS);
+  }, []);
+
+  /**
+   * 답장 원본으로 이동
+   * 아직 로드되지 않았으면 이전 페이지를 불러오면서 찾고, 끝까지 없으면 삭제된 것으로 표시
+   */
+  const handleJumpToMessage = useCallback(async (messageId: string) => {
+    isAtBottomRef.current = false;
+
+    const index = findMessageRowIndex(rowsRef.current, messageId);
+    if (index >= 0) {
+      listRef.current?.scrollToItem(index, 'center');
+      highlightMessage(messageId);
+      return;
+    }
+
+    // 다른 갈래에 있으면 그 갈래로 전환한 뒤 스크롤
+    if (useChatStore.getState().messages[conversationId]?.some((msg) => msg.id === messageId)) {
+      pendingJumpRef.current = messageId;
+      selectBranch(conversationId, messageId);
+      highlightMessage(messageId);
+      return;
+    }
+
+    if (useChatStore.getState().isLoading) return;
+
+    setLoading(true);
+    try {
+      for (let page = 0; page < MAX_JUMP_PAGES; page++) {
+        const { messages: loaded, hasMore: loadedHasMore } = useChatStore.getState();
+        const current = loaded[conversationId] ?? [];
+        if (loadedHasMore[conversationId] === false || current.length === 0) break;
+
+        const olderMessages = await transport.fetchHistory(conversationId, current[0].id);
+        if (olderMessages.length === 0) {
+          setHasMore(conversationId, false);
+          break;
+        }
+
+        if (olderMessages.some((msg) => msg.id === messageId)) {
+          // 행이 갱신된 뒤 레이아웃 효과에서 스크롤
+          pendingJumpRef.current = messageId;
+          prependMessages(conversationId, olderMessages);
+          highlightMessage(messageId);
+          return;
+        }
+        prependMessages(conversationId, olderMessages);
+      }
+
+      // 찾지 못한 원본은 삭제된 것으로 본다
+      const { messages: loaded, updateMessage: markMessage } = useChatStore.getState();
+      (loaded[conversationId] ?? [])
+        .filter((msg) => msg.replyToId === messageId)
+        .forEach((msg) => markMessage(conversationId, msg.id, { replyToDeleted: true }));
+      showToast({ message: t('message.originalNotFound') }, 2000);
+    } catch (error) {
+      console.error('Failed to load original message:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, transport, setLoading, setHasMore, prependMessages, selectBranch, highlightMessage, showToast, t]);
+
+  // 검색 결과를 오가면 해당 메시지로 스크롤 (아직 행이 없으면 행이 생긴 뒤 레이아웃 효과에서)
+  useEffect(() => {
+    if (!activeSearchMessageId) return;
+
+    isAtBottomRef.current = false;
+    const index = findMessageRowIndex(rowsRef.current, activeSearchMessageId);
+    if (index >= 0) {
+      listRef.current?.scrollToItem(index, 'center');
+    } else {
+      pendingJumpRef.current = activeSearchMessageId;
+    }
+  }, [activeSearchMessageId]);
+
+  const handleEdit = useCallback((message: Message) => {
+    setComposerTarget(conversationId, { mode: 'edit', messageId: message.id });
+  }, [conversationId, setComposerTarget]);
+
+  const handleReply = useCallback((message: Message) => {
+    setComposerTarget(conversationId, { mode: 'reply', messageId: message.id });
+  }, [conversationId, setComposerTarget]);
+
+  // 바로 반영하고 보낸다. 실패하면 되돌린다 (서버가 되돌려 주는 이벤트는 중복 적용되지 않음)
+  const handleToggleReaction = useCallback((message: Message, emoji: string) => {
+    const current = useChatStore.getState().messages[conversationId]?.find((msg) => msg.id === message.id);
+    const reacted = Boolean(current?.reactions?.[emoji]?.includes(USER_PARTICIPANT_ID));
+    const [apply, revert] = reacted ? [removeReaction, addReaction] : [addReaction, removeReaction];
+
+    apply(conversationId, message.id, emoji, USER_PARTICIPANT_ID);
+    transport.sendReaction(conversationId, message.id, emoji, reacted ? 'remove' : 'add').catch((error) => {
+      console.error('Failed to send reaction:', error);
+      revert(conversationId, message.id, emoji, USER_PARTICIPANT_ID);
+      showToast({ message: t('reactions.failed') }, 2000);
+    });
+  }, [conversationId, transport, addReaction, removeReaction, showToast, t]);
+
+  const handleRegenerate = useCallback((message: Message) => {
+    void regenerateAssistantReply(transport, conversationId, message);
+  }, [conversationId, transport]);
+
+  const handleToggleLinkPreview = useCallback((message: Message) => {
+    updateMessage(conversationId, message.id, { hideLinkPreview: !message.hideLinkPreview });
+  }, [conversationId, updateMessage]);
+
+  const handleShowVariant = useCallback((messageId: string) => {
+    selectBranch(conversationId, messageId);
+  }, [conversationId, selectBranch]);
+
+  const itemData = useMemo<MessageListRowData>(() => ({
+    rows,
+    onMeasure: handleMeasure,
+    onObserveSeen: observeSeen,
+    onRetry: handleRetry,
+    onDelete: handleDelete,
+    onEdit: handleEdit,
+    onReply: handleReply,
+    onToggleReaction: handleToggleReaction,
+    onRegenerate: handleRegenerate,
+    onShowVariant: handleShowVariant,
+    onToggleLinkPreview: handleToggleLinkPreview,
+    onJumpToMessage: handleJumpToMessage,
+    highlightedMessageId: highlightedMessageId ?? activeSearchMessageId,
+    searchTerms,
+  }), [
+    rows,
+    handleMeasure,
+    observeSeen,
+    handleRetry,
+    handleDelete,
+    handleEdit,
+    handleReply,
+    handleToggleReaction,
+    handleRegenerate,
+    handleShowVariant,
+    handleToggleLinkPreview,
+    handleJumpToMessage,
+    highlightedMessageId,
+    activeSearchMessageId,
+    searchTerms,
+  ]);
+
   const handleScrollToBottom = () => {
+    isAtBottomRef.current = true;
     scrollToBottom();
-    setIsUserScrolling(false);
     setShowScrollButton(false);
   };
-  
+
+  const handleJumpToUnread = () => {
+    const index = rowsRef.current.findIndex((row) => row.type === 'unread');
+    if (index < 0) return;
+    isAtBottomRef.current = false;
+    listRef.current?.scrollToItem(index, 'start');
+  };
+
   return (
-    <div className="relative flex-1 overflow-hidden">
+    <div ref={sizeRef} className="relative h-full flex-1 overflow-hidden">
       <FloatingTimeIndicator
-        lastRefreshTime={lastRefreshTime}
-        isVisible={showTimeIndicator}
+        date={topVisibleDate}
+        isVisible={!isDateDividerVisible}
       />
-      
+
       <PullToRefresh
         isPulling={isPulling}
         pullDistance={pullDistance}
         isRefreshing={isRefreshing}
         pullProgress={pullProgress}
       />
-      
-      <div
-        ref={scrollContainerRef}
-        className="h-full overflow-y-auto px-4 py-4 scrollable-area"
+
+      <VariableSizeList
+        ref={listRef}
+        outerRef={outerRef}
+        className="scrollable-area"
+        width={width}
+        height={height}
+        itemCount={rows.length}
+        itemSize={getRowHeight}
+        estimatedItemSize={ESTIMATED_ROW_HEIGHT}
+        itemKey={(index, data) => data.rows[index].key}
+        itemData={itemData}
+        overscanCount={5}
+        onScroll={handleScroll}
+        onItemsRendered={handleItemsRendered}
         style={{
-          paddingBottom: 'calc(var(--safe-area-inset-bottom) + 1rem)',
           transform: `translateY(${pullDistance}px)`,
           transition: isPulling ? 'none' : 'transform 0.2s ease-out',
         }}
       >
-        {isLoading && messages.length === 0 && (
-          <div className="flex justify-center py-4">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
-          </div>
-        )}
-        
-        {!hasMore && messages.length > 0 && (
-          <div className="text-center text-gray-500 text-sm py-4">
-            대화의 시작입니다
-          </div>
-        )}
-        
-        {messages.map((message) => (
-          <MessageItem key={message.id} message={message} />
-        ))}
-        
-        <div ref={bottomRef} />
-      </div>
-      
+        {MessageListRow}
+      </VariableSizeList>
+
+      {isUnreadDividerAbove && (
+        <button
+          onClick={handleJumpToUnread}
+          className={cn(
+            'absolute end-4 z-10 flex items-center gap-1',
+            'rounded-full bg-blue-500 px-3 py-1.5 text-xs font-medium text-white shadow-lg',
+            'hover:bg-blue-600 active:scale-95 transition-all'
+          )}
+          style={{
+            top: 'calc(var(--safe-area-inset-top) + 1rem)',
+          }}
+        >
+          <svg
+            className="w-3.5 h-3.5"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path d="M5 10l7-7m0 0l7 7m-7-7v18" />
+          </svg>
+          {t('chat.jumpToUnread')}
+        </button>
+      )}
+
       {showScrollButton && (
         <button
           onClick={handleScrollToBottom}
           className={cn(
-            'absolute bottom-4 right-4 bg-white shadow-lg',
+            'absolute bottom-4 end-4 bg-white shadow-lg',
             'rounded-full p-3 transition-all duration-200',
             'hover:scale-110 active:scale-95',
             'border border-gray-200'
           )}
-          aria-label="Scroll to bottom"
+          aria-label={
+            unseenCount > 0
+              ? `${t('chat.scrollToBottom')}, ${t('chat.newMessages', { count: unseenCount })}`
+              : t('chat.scrollToBottom')
+          }
         >
+          {unseenCount > 0 && (
+            <span
+              className={cn(
+                'absolute -top-1.5 -end-1.5 min-w-[20px] h-5 px-1.5 rounded-full',
+                'bg-red-500 text-white text-xs font-semibold',
+                'flex items-center justify-center'
+              )}
+            >
+              {unseenCount > 99 ? '99+' : unseenCount}
+            </span>
+          )}
           <svg
             className="w-5 h-5 text-gray-600"
             fill="none"
@@ -192,4 +594,4 @@ export const MessageList: React.FC = () => {
       )}
     </div>
   );
-};
\ No newline at end of file
+};
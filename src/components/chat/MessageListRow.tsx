@@ -0,0 +1,131 @@
+import React, { memo, useEffect, useLayoutEffect, useRef } from 'react';
+import { areEqual, type ListChildComponentProps } from 'react-window';
+import { MessageItem } from './MessageItem';
+import { TypingIndicator } from './TypingIndicator';
+import type { MessageListRow as Row } from './messageListRows';
+import type { Message } from '../../types/chat';
+import type { I18nContextValue } from '../../i18n/I18nContext';
+import { useI18n } from '../../hooks/useI18n';
+
+export interface MessageListRowData {
+  rows: Row[];
+  /** 렌더링된 행의 실제 높이를 목록에 알린다 */
+  onMeasure: (index: number, key: string, height: number) => void;
+  /** 상대 메시지가 화면에 보이는지 관찰. 해제 함수를 반환 */
+  onObserveSeen: (element: Element, timestamp: number) => () => void;
+  onRetry: (message: Message) => void;
+  onDelete: (message: Message) => void;
+  onEdit: (message: Message) => void;
+  onReply: (message: Message) => void;
+  onToggleReaction: (message: Message, emoji: string) => void;
+  onRegenerate: (message: Message) => void;
+  onToggleLinkPreview: (message: Message) => void;
+  /** 이 메시지가 있는 갈래로 전환 */
+  onShowVariant: (messageId: string) => void;
+  onJumpToMessage: (messageId: string) => void;
+  /** 잠시 강조할 메시지 */
+  highlightedMessageId: string | null;
+  searchTerms: string[];
+}
+
+const renderRow = (row: Row, data: MessageListRowData, i18n: I18nContextValue) => {
+  switch (row.type) {
+    case 'header':
+      return <div className="h-4" />;
+    case 'loading':
+      return (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500" />
+        </div>
+      );
+    case 'start':
+      return (
+        <div className="text-center text-gray-500 text-sm py-4">
+          {i18n.t('chat.start')}
+        </div>
+      );
+    case 'date':
+      return (
+        <div className="flex items-center gap-3 py-3 text-xs text-gray-500" role="separator">
+          <div className="h-px flex-1 bg-gray-200" />
+          <span>{i18n.formatDateLabel(row.date)}</span>
+          <div className="h-px flex-1 bg-gray-200" />
+        </div>
+      );
+    case 'unread':
+      return (
+        <div className="flex items-center gap-3 py-3 text-xs font-medium text-blue-600" role="separator">
+          <div className="h-px flex-1 bg-blue-200" />
+          <span>{i18n.t('chat.unreadDivider')}</span>
+          <div className="h-px flex-1 bg-blue-200" />
+        </div>
+      );
+    case 'message':
+      return (
+        <MessageItem
+          message={row.message}
+          replyTo={row.replyTo}
+          isGroupStart={row.isGroupStart}
+          isGroupEnd={row.isGroupEnd}
+          isHighlighted={row.message.id === data.highlightedMessageId}
+          highlightTerms={data.searchTerms}
+          onRetry={data.onRetry}
+          onDelete={data.onDelete}
+          onEdit={data.onEdit}
+          onReply={data.onReply}
+          onToggleReaction={data.onToggleReaction}
+          variants={row.variants}
+          onShowVariant={data.onShowVariant}
+          onRegenerate={row.canRegenerate ? data.onRegenerate : undefined}
+          onToggleLinkPreview={data.onToggleLinkPreview}
+          onJumpToMessage={data.onJumpToMessage}
+        />
+      );
+    case 'typing':
+      return <TypingIndicator />;
+    case 'footer':
+      return <div style={{ height: 'calc(var(--safe-area-inset-bottom, 0px) + 1rem)' }} />;
+  }
+};
+
+export const MessageListRow: React.FC<ListChildComponentProps<MessageListRowData>> = memo(
+  ({ index, style, data }) => {
+    const row = data.rows[index];
+    const contentRef = useRef<HTMLDivElement>(null);
+    const i18n = useI18n();
+    const { onMeasure, onObserveSeen } = data;
+    // 내가 보낸 메시지는 읽음 추적 대상이 아님
+    const seenTimestamp = row.type === 'message' && row.message.sender !== 'user'
+      ? new Date(row.message.timestamp).getTime()
+      : null;
+    
+    // 내용 높이가 바뀔 때마다(스트리밍, 이미지 로드 등) 다시 측정
+    useLayoutEffect(() => {
+      const element = contentRef.current;
+      if (!element) return;
+      
+      const measure = () => onMeasure(index, row.key, element.getBoundingClientRect().height);
+      measure();
+      
+      const observer = new ResizeObserver(measure);
+      observer.observe(element);
+      return () => observer.disconnect();
+    }, [index, row.key, onMeasure]);
+    
+    useEffect(() => {
+      const element = contentRef.current;
+      if (seenTimestamp === null || !element) return;
+      return onObserveSeen(element, seenTimestamp);
+    }, [seenTimestamp, onObserveSeen]);
+    
+    return (
+      <div style={style}>
+        {/* flow-root: 자식 margin이 바깥으로 빠져나가 측정에서 누락되지 않도록 */}
+        <div ref={contentRef} className="flow-root px-4">
+          {renderRow(row, data, i18n)}
+        </div>
+      </div>
+    );
+  },
+  areEqual
+);
@@ -0,0 +1,63 @@
+import React from 'react';
+import { cn } from '../../utils/cn';
+import { USER_PARTICIPANT_ID } from '../../api/transport';
+import { useI18n } from '../../hooks/useI18n';
+
+interface MessageReactionsProps {
+  reactions: Record<string, string[]>;
+  onToggle: (emoji: string) => void;
+  /** 이모지 선택 창을 연다 (누른 버튼 위치 기준). 없으면 추가 버튼을 숨긴다 */
+  onOpenPicker?: (anchor: DOMRect) => void;
+}
+
+/**
+ * 말풍선 아래의 반응 칩
+ * 누르면 내 반응을 추가/취소하고, 내가 반응한 칩은 강조된다
+ */
+export const MessageReactions: React.FC<MessageReactionsProps> = ({ reactions, onToggle, onOpenPicker }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex max-w-[70%] flex-wrap items-center gap-1 mt-1">
+      {Object.entries(reactions).map(([emoji, participants]) => {
+        const isMine = participants.includes(USER_PARTICIPANT_ID);
+        return (
+          <button
+            key={emoji}
+            onClick={() => onToggle(emoji)}
+            className={cn(
+              'flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+              isMine
+                ? 'border-blue-400 bg-blue-50 text-blue-700 hover:bg-blue-100'
+                : 'border-gray-200 bg-white text-gray-700 hover:bg-gray-50'
+            )}
+            aria-label={t('reactions.count', { emoji, count: participants.length })}
+            aria-pressed={isMine}
+          >
+            <span className="text-sm leading-none">{emoji}</span>
+            <span className="tabular-nums">{participants.length}</span>
+          </button>
+        );
+      })}
+      {onOpenPicker && (
+        <button
+          onClick={(e) => onOpenPicker(e.currentTarget.getBoundingClientRect())}
+          className="rounded-full border border-gray-200 bg-white px-1.5 py-0.5 text-gray-500 hover:bg-gray-50 transition-colors"
+          aria-label={t('reactions.add')}
+        >
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth="2"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+      )}
+    </div>
+  );
+};
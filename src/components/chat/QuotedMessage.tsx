@@ -0,0 +1,49 @@
+import React from 'react';
+import type { Message } from '../../types/chat';
+import { cn } from '../../utils/cn';
+import { getMessagePreview } from '../../utils/messagePreview';
+import { useI18n } from '../../hooks/useI18n';
+
+interface QuotedMessageProps {
+  message: Message;
+  /** 로드되어 있는 원본 메시지 */
+  original?: Message;
+  isUser: boolean;
+  onJump?: (messageId: string) => void;
+}
+
+/**
+ * 답장 메시지 위에 표시되는 원본 인용
+ * 원본이 로드되어 있지 않으면 답장 시점에 저장한 요약을 보여준다
+ */
+export const QuotedMessage: React.FC<QuotedMessageProps> = ({ message, original, isUser, onJump }) => {
+  const { t } = useI18n();
+  if (!message.replyToId) return null;
+
+  const sender = original?.sender ?? message.replyPreview?.sender;
+  const content = original ? getMessagePreview(original, t) : message.replyPreview?.content;
+  const className = cn(
+    'block w-full text-start mb-1 rounded-lg border-s-2 px-2 py-1 text-xs',
+    isUser ? 'border-blue-200 bg-blue-400/60 text-blue-50' : 'border-gray-400 bg-gray-200 text-gray-600'
+  );
+
+  if (message.replyToDeleted) {
+    return <div className={cn(className, 'italic')}>{t('message.deletedOriginal')}</div>;
+  }
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        if (message.replyToId) onJump?.(message.replyToId);
+      }}
+      className={cn(className, 'hover:opacity-90')}
+      aria-label={t('message.jumpToOriginal')}
+    >
+      {sender && (
+        <span className="block font-medium">{t(sender === 'user' ? 'sender.user' : 'sender.assistant')}</span>
+      )}
+      <span className="block truncate">{content || t('message.original')}</span>
+    </button>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useI18n } from '../../hooks/useI18n';
+
+/** 점마다 튀어 오르는 시점을 어긋나게 */
+const DOT_DELAYS_MS = [0, 150, 300];
+
+/**
+ * 상대가 입력 중일 때 목록 맨 아래에 표시되는 말풍선
+ */
+export const TypingIndicator: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex justify-start mb-4">
+      <div
+        className="flex items-center gap-1 rounded-2xl rounded-es-sm bg-gray-100 px-4 py-3"
+        role="status"
+        aria-label={t('chat.typing')}
+      >
+        {DOT_DELAYS_MS.map((delay) => (
+          <span
+            key={delay}
+            className="h-2 w-2 rounded-full bg-gray-400 animate-bounce"
+            style={{ animationDelay: `${delay}ms` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import { cn } from '../../utils/cn';
+import { formatDuration } from '../../utils/attachments';
+import type { MediaStreamProvider, VoiceRecording } from '../../utils/voiceRecorder';
+import { useVoiceRecorder } from '../../hooks/useVoiceRecorder';
+import { useI18n } from '../../hooks/useI18n';
+
+/** 이만큼 밀면 손을 떼었을 때 녹음을 버린다 (px) */
+const CANCEL_DISTANCE = 80;
+
+/** 이보다 짧은 녹음은 실수로 누른 것으로 보고 보내지 않는다 */
+const MIN_RECORDING_MS = 500;
+
+interface VoiceRecordButtonProps {
+  onRecorded: (recording: VoiceRecording) => void;
+  onError: (message: string) => void;
+  /** 녹음 입력 (기본: 마이크). 가짜 스트림을 넣어 마이크 없이 확인할 수 있다 */
+  getStream?: MediaStreamProvider;
+}
+
+/**
+ * 누르고 있는 동안 녹음하는 마이크 버튼
+ * 손을 떼면 전송, 입력창 시작 쪽으로 밀었다가 떼면 취소
+ * 키보드는 Space/Enter를 누르고 있는 동안 녹음, Escape로 취소
+ * 녹음 중에는 버튼이 있는 입력 줄(relative) 전체를 덮는 표시가 나타난다
+ */
+export const VoiceRecordButton: React.FC<VoiceRecordButtonProps> = ({ onRecorded, onError, getStream }) => {
+  const { t, dir } = useI18n();
+  const { isRecording, elapsedMs, levels, start, stop, cancel } = useVoiceRecorder(getStream);
+  const [dragDistance, setDragDistance] = useState(0);
+  const pointerStartXRef = useRef<number | null>(null);
+  const startedAtRef = useRef(0);
+  const willCancel = dragDistance >= CANCEL_DISTANCE;
+
+  const beginRecording = () => {
+    startedAtRef.current = Date.now();
+    setDragDistance(0);
+    start().catch((error) => {
+      console.error('Failed to start recording:', error);
+      onError(t('composer.micUnavailable'));
+    });
+  };
+
+  const finishRecording = async (save: boolean) => {
+    pointerStartXRef.current = null;
+    setDragDistance(0);
+    if (!save) {
+      await cancel();
+      return;
+    }
+
+    const tooShort = Date.now() - startedAtRef.current < MIN_RECORDING_MS;
+    const recording = tooShort ? await cancel() : await stop();
+    if (tooShort) {
+      onError(t('composer.recordTooShort'));
+    } else if (recording) {
+      onRecorded(recording);
+    }
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLButtonElement>) => {
+    if (e.button !== 0 || isRecording) return;
+    e.preventDefault();
+    // 손가락이 버튼 밖으로 나가도 계속 이벤트를 받는다
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerStartXRef.current = e.clientX;
+    beginRecording();
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLButtonElement>) => {
+    if (pointerStartXRef.current === null) return;
+    // 취소 방향은 입력창 시작 쪽 (RTL에서는 오른쪽)
+    const delta = e.clientX - pointerStartXRef.current;
+    setDragDistance(Math.max(0, dir === 'rtl' ? delta : -delta));
+  };
+
+  const handlePointerUp = () => {
+    if (pointerStartXRef.current === null) return;
+    void finishRecording(!willCancel);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLButtonElement>) => {
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      if (!e.repeat && !isRecording) beginRecording();
+    } else if (e.key === 'Escape' && isRecording) {
+      e.preventDefault();
+      void finishRecording(false);
+    }
+  };
+
+  const handleKeyUp = (e: KeyboardEvent<HTMLButtonElement>) => {
+    if ((e.key === ' ' || e.key === 'Enter') && isRecording && pointerStartXRef.current === null) {
+      e.preventDefault();
+      void finishRecording(true);
+    }
+  };
+
+  return (
+    <>
+      {isRecording && (
+        <div
+          className="absolute inset-0 z-10 flex items-center gap-3 bg-white px-4"
+          role="status"
+        >
+          <span className="h-2.5 w-2.5 flex-shrink-0 animate-pulse rounded-full bg-red-500" />
+          <span className="flex-shrink-0 text-sm tabular-nums text-gray-700">
+            {formatDuration(elapsedMs / 1000)}
+          </span>
+          <div className="flex h-6 min-w-0 flex-1 items-center justify-end gap-px overflow-hidden" aria-hidden="true">
+            {levels.map((level, index) => (
+              <span
+                key={index}
+                className="w-1 flex-shrink-0 rounded-full bg-red-400"
+                style={{ height: `${Math.max(level, 0.1) * 100}%` }}
+              />
+            ))}
+          </div>
+          <span
+            className={cn(
+              'flex-shrink-0 text-sm transition-colors',
+              willCancel ? 'text-red-500' : 'text-gray-400'
+            )}
+            // 미는 만큼 안내 문구도 함께 따라간다
+            style={{ transform: `translateX(${(dir === 'rtl' ? 1 : -1) * Math.min(dragDistance, CANCEL_DISTANCE)}px)` }}
+          >
+            {t('composer.slideToCancel')}
+          </span>
+          {/* 겹쳐 있는 표시 아래의 버튼 자리만큼 비워 둔다 */}
+          <span className="w-9 flex-shrink-0" />
+        </div>
+      )}
+
+      <button
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => void finishRecording(false)}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onContextMenu={(e) => e.preventDefault()}
+        className={cn(
+          'relative z-20 rounded-full p-2 transition-all touch-none select-none',
+          isRecording
+            ? 'bg-red-500 text-white scale-110'
+            : 'bg-gray-100 text-gray-600 hover:bg-gray-200 active:scale-95'
+        )}
+        aria-label={t('composer.record')}
+        aria-pressed={isRecording}
+      >
+        <svg
+          className="w-5 h-5"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+        </svg>
+      </button>
+    </>
+  );
+};
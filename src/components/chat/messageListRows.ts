@@ -0,0 +1,117 @@
+import type { Message } from '../../types/chat';
+import { isSameDay } from '../../utils/date';
+
+/** 같은 사람이 이 시간 안에 연달아 보낸 메시지는 한 그룹으로 묶는다 */
+const GROUP_WINDOW_MS = 5 * 60 * 1000;
+
+/**
+ * 가상화된 메시지 목록의 한 행
+ * key는 메시지 id처럼 앞쪽에 항목이 추가되어도 변하지 않는 값이어야 한다 (높이 캐시 키)
+ */
+export type MessageListRow =
+  | { type: 'header'; key: string }
+  | { type: 'loading'; key: string }
+  | { type: 'start'; key: string }
+  | { type: 'date'; key: string; date: Date }
+  | { type: 'unread'; key: string }
+  | {
+      type: 'message';
+      key: string;
+      message: Message;
+      replyTo?: Message;
+      /** 그룹의 첫 메시지 */
+      isGroupStart: boolean;
+      /** 그룹의 마지막 메시지 (시각과 말풍선 꼬리 표시) */
+      isGroupEnd: boolean;
+      /** 같은 자리의 다른 버전들 (자신 포함, 버전이 하나면 없음) */
+      variants?: Message[];
+      /** 응답을 다시 생성할 수 있는 메시지 */
+      canRegenerate: boolean;
+    }
+  | { type: 'typing'; key: string }
+  | { type: 'footer'; key: string };
+
+interface BuildRowsOptions {
+  /** 보고 있는 갈래의 메시지들 */
+  messages: Message[];
+  /** 메시지 id → 같은 자리의 버전들 */
+  variants?: Map<string, Message[]>;
+  /** 다시 생성 버튼을 보여줄 응답 */
+  regenerableId?: string | null;
+  isLoading: boolean;
+  hasMore: boolean;
+  /** 상대가 입력 중이면 목록 끝에 입력 중 말풍선 */
+  isTyping?: boolean;
+  /** 이 메시지 앞에 '여기까지 읽었습니다' 구분선 */
+  firstUnreadId?: string | null;
+}
+
+const continuesGroup = (previous?: Message, next?: Message): boolean => {
+  if (!previous || !next) return false;
+  if (previous.sender !== next.sender) return false;
+  
+  const gap = new Date(next.timestamp).getTime() - new Date(previous.timestamp).getTime();
+  return isSameDay(previous.timestamp, next.timestamp) && gap <= GROUP_WINDOW_MS;
+};
+
+// 서버 id로 바뀐 메시지도 높이 캐시를 유지하도록 처음 만든 id를 키로 쓴다
+const getMessageRowKey = (message: Message) => `message:${message.clientId ?? message.id}`;
+
+export const findMessageRowIndex = (rows: MessageListRow[], messageId: string) =>
+  rows.findIndex((row) => row.type === 'message' && row.message.id === messageId);
+
+export function buildMessageListRows({
+  messages,
+  variants,
+  regenerableId = null,
+  isLoading,
+  hasMore,
+  isTyping = false,
+  firstUnreadId = null,
+}: BuildRowsOptions): MessageListRow[] {
+  const rows: MessageListRow[] = [{ type: 'header', key: 'header' }];
+  
+  if (isLoading && messages.length === 0) {
+    rows.push({ type: 'loading', key: 'loading' });
+  }
+  
+  if (!hasMore && messages.length > 0) {
+    rows.push({ type: 'start', key: 'start' });
+  }
+  
+  const messagesById = new Map(messages.map((message) => [message.id, message]));
+  
+  messages.forEach((message, index) => {
+    const previous = messages[index - 1];
+    const next = messages[index + 1];
+    
+    // 날짜는 스레드 안에서 되풀이될 수 있으므로(가져온 기록 등) 구분선 아래 첫 메시지로 키를 만든다
+    if (!previous || !isSameDay(previous.timestamp, message.timestamp)) {
+      rows.push({ type: 'date', key: `date:${message.clientId ?? message.id}`, date: message.timestamp });
+    }
+    
+    if (message.id === firstUnreadId) {
+      rows.push({ type: 'unread', key: 'unread' });
+    }
+    
+    rows.push({
+      type: 'message',
+      key: getMessageRowKey(message),
+      message,
+      // 답장 원본이 로드되어 있으면 최신 내용(수정 반영)으로 인용
+      replyTo: message.replyToId ? messagesById.get(message.replyToId) : undefined,
+      isGroupStart: !continuesGroup(previous, message),
+      isGroupEnd: !continuesGroup(message, next),
+      variants: variants?.get(message.id),
+      canRegenerate: message.id === regenerableId,
+    });
+  });
+  
+  if (isTyping) {
+    rows.push({ type: 'typing', key: 'typing' });
+  }
+  
+  rows.push({ type: 'footer', key: 'footer' });
+  
+  return rows;
+}
@@ -0,0 +1,47 @@
+import { findHighlightRanges } from '../../utils/search';
+
+/** remark 플러그인이 다루는 mdast 노드 중 필요한 부분만 */
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  children?: MarkdownNode[];
+  data?: Record<string, unknown>;
+}
+
+const splitTextNode = (node: MarkdownNode, terms: string[]): MarkdownNode[] => {
+  const text = node.value ?? '';
+  const ranges = findHighlightRanges(text, terms);
+  if (ranges.length === 0) return [node];
+
+  const parts: MarkdownNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) parts.push({ type: 'text', value: text.slice(cursor, start) });
+    // hName으로 <mark> 요소가 되도록 한다
+    parts.push({ type: 'text', value: text.slice(start, end), data: { hName: 'mark' } });
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push({ type: 'text', value: text.slice(cursor) });
+  return parts;
+};
+
+const highlightChildren = (node: MarkdownNode, terms: string[]) => {
+  if (!node.children) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text') return splitTextNode(child, terms);
+    highlightChildren(child, terms);
+    return [child];
+  });
+};
+
+/**
+ * 검색어와 일치하는 텍스트를 <mark>로 감싸는 remark 플러그인
+ * 코드 블록과 인라인 코드는 텍스트 노드가 아니므로 건드리지 않는다
+ */
+export function remarkHighlight(options: { terms: string[] }) {
+  return (tree: MarkdownNode) => {
+    if (options.terms.length > 0) {
+      highlightChildren(tree, options.terms);
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { findLinks } from '../../utils/linkify';
+
+/** remark 플러그인이 다루는 mdast 노드 중 필요한 부분만 */
+interface MarkdownNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MarkdownNode[];
+}
+
+const splitTextNode = (node: MarkdownNode): MarkdownNode[] => {
+  const text = node.value ?? '';
+  const links = findLinks(text);
+  if (links.length === 0) return [node];
+
+  const parts: MarkdownNode[] = [];
+  let cursor = 0;
+  links.forEach((link) => {
+    if (link.start > cursor) parts.push({ type: 'text', value: text.slice(cursor, link.start) });
+    parts.push({ type: 'link', url: link.href, children: [{ type: 'text', value: link.text }] });
+    cursor = link.end;
+  });
+  if (cursor < text.length) parts.push({ type: 'text', value: text.slice(cursor) });
+  return parts;
+};
+
+const linkifyChildren = (node: MarkdownNode) => {
+  if (!node.children) return;
+  node.children = node.children.flatMap((child) => {
+    if (child.type === 'text') return splitTextNode(child);
+    // 이미 링크인 부분은 그대로
+    if (child.type !== 'link' && child.type !== 'linkReference') linkifyChildren(child);
+    return [child];
+  });
+};
+
+/**
+ * gfm 자동 링크가 처리하지 않는 전화번호 등을 링크로 바꾸는 remark 플러그인
+ * remarkGfm 뒤에 두어 gfm이 만든 주소/이메일 링크와 겹치지 않게 한다
+ */
+export function remarkLinkify() {
+  return (tree: MarkdownNode) => {
+    linkifyChildren(tree);
+  };
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useToastStore } from '../../store/toastStore';
+
+/**
+ * 화면 하단에 쌓이는 토스트 알림 (실행 취소 등 액션 버튼 포함)
+ */
+export const ToastContainer: React.FC = () => {
+  const toasts = useToastStore((state) => state.toasts);
+  const dismissToast = useToastStore((state) => state.dismissToast);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div
+      className="fixed left-0 right-0 bottom-24 z-[1500] flex flex-col items-center gap-2 px-4 pointer-events-none"
+      role="status"
+      aria-live="polite"
+    >
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          className="pointer-events-auto flex items-center gap-3 rounded-full bg-gray-900/90 px-4 py-2 text-sm text-white shadow-lg"
+        >
+          <span>{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={() => {
+                toast.action?.onClick();
+                dismissToast(toast.id);
+              }}
+              className="font-semibold text-blue-300 hover:text-blue-200"
+            >
+              {toast.action.label}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
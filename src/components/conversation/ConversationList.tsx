@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { ConversationListItem } from './ConversationListItem';
+import { useChatStore } from '../../store/chatStore';
+import { useOutboxStore } from '../../store/outboxStore';
+import { useToastStore } from '../../store/toastStore';
+import { stopAssistantReply } from '../../api/replyStream';
+import { cn } from '../../utils/cn';
+import { pickFiles } from '../../utils/filePicker';
+import { IMPORT_ACCEPT, readConversationExport } from '../../utils/conversationExport';
+import { useI18n } from '../../hooks/useI18n';
+import { LOCALE_NAMES, SUPPORTED_LOCALES, isSupportedLocale } from '../../i18n/catalog';
+
+interface ConversationListProps {
+  onSelect: (conversationId: string) => void;
+}
+
+export const ConversationList: React.FC<ConversationListProps> = ({ onSelect }) => {
+  const { t, preferredLocale, setPreferredLocale } = useI18n();
+  const conversations = useChatStore((state) => state.conversations);
+  const createConversation = useChatStore((state) => state.createConversation);
+  const renameConversation = useChatStore((state) => state.renameConversation);
+  const deleteConversation = useChatStore((state) => state.deleteConversation);
+  const importMessages = useChatStore((state) => state.importMessages);
+  const removeOutboxConversation = useOutboxStore((state) => state.removeConversation);
+  const showToast = useToastStore((state) => state.showToast);
+  
+  // 최근 대화가 위로
+  const sortedConversations = useMemo(
+    () =>
+      Object.values(conversations).sort(
+        (a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      ),
+    [conversations]
+  );
+  
+  const handleCreate = () => {
+    const id = createConversation();
+    onSelect(id);
+  };
+  
+  // 내보낸 대화는 항상 새 대화로 가져온다 (기존 대화에 합치려면 대화 안에서 /import)
+  const handleImport = async () => {
+    const [file] = await pickFiles({ accept: IMPORT_ACCEPT });
+    if (!file) return;
+    
+    const { data, error } = await readConversationExport(file);
+    if (error) {
+      showToast({ message: t(`import.${error}`) });
+      return;
+    }
+    const id = createConversation(data.conversation.title || undefined);
+    importMessages(id, data.messages, 'replace');
+    onSelect(id);
+  };
+  
+  const handleDelete = (id: string) => {
+    const conversation = conversations[id];
+    if (window.confirm(t('conversations.deleteConfirm', { title: conversation?.title ?? '' }))) {
+      stopAssistantReply(id);
+      removeOutboxConversation(id);
+      deleteConversation(id);
+    }
+  };
+  
+  return (
+    <div className="fixed inset-0 flex flex-col bg-white">
+      <header className="border-b border-gray-200 bg-white px-4 py-3 flex-shrink-0 safe-area-top flex items-center justify-between">
+        <h1 className="text-lg font-semibold text-gray-900">{t('conversations.title')}</h1>
+        <div className="flex items-center gap-1">
+          <select
+            value={preferredLocale ?? ''}
+            onChange={(e) => {
+              const value = e.target.value;
+              setPreferredLocale(isSupportedLocale(value) ? value : null);
+            }}
+            className="rounded-lg bg-transparent px-2 py-1 text-sm text-gray-600 hover:bg-gray-100"
+            aria-label={t('settings.language')}
+          >
+            <option value="">{t('settings.languageAuto')}</option>
+            {SUPPORTED_LOCALES.map((locale) => (
+              <option key={locale} value={locale}>{LOCALE_NAMES[locale]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleImport}
+            className={cn(
+              'rounded-full p-2 transition-all',
+              'hover:bg-gray-100 active:scale-95'
+            )}
+            aria-label={t('conversations.import')}
+          >
+            <svg
+              className="w-5 h-5 text-gray-600"
+              fill="none"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+            </svg>
+          </button>
+          <button
+            onClick={handleCreate}
+            className={cn(
+              'rounded-full p-2 transition-all',
+              'hover:bg-gray-100 active:scale-95'
+            )}
+            aria-label={t('conversations.new')}
+          >
+            <svg
+              className="w-5 h-5 text-gray-600"
+              fill="none"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth="2"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path d="M12 5v14m-7-7h14" />
+            </svg>
+          </button>
+        </div>
+      </header>
+      
+      <main className="flex-1 min-h-0 overflow-y-auto scrollable-area">
+        {sortedConversations.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-8">
+            {t('conversations.empty')}
+          </div>
+        ) : (
+          <ul>
+            {sortedConversations.map((conversation) => (
+              <ConversationListItem
+                key={conversation.id}
+                conversation={conversation}
+                onSelect={onSelect}
+                onRename={renameConversation}
+                onDelete={handleDelete}
+              />
+            ))}
+          </ul>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState, KeyboardEvent } from 'react';
+import type { Conversation } from '../../types/chat';
+import { cn } from '../../utils/cn';
+import { getMessagePreview } from '../../utils/messagePreview';
+import { useChatStore } from '../../store/chatStore';
+import { isSameDay } from '../../utils/date';
+import { useI18n } from '../../hooks/useI18n';
+
+interface ConversationListItemProps {
+  conversation: Conversation;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ConversationListItem: React.FC<ConversationListItemProps> = ({
+  conversation,
+  onSelect,
+  onRename,
+  onDelete,
+}) => {
+  const { t, formatRelativeTime, formatShortDate } = useI18n();
+  const draft = useChatStore((state) => state.drafts[conversation.id]);
+  const [isEditing, setIsEditing] = useState(false);
+  const [title, setTitle] = useState(conversation.title);
+  const inputRef = useRef<HTMLInputElement>(null);
+  
+  useEffect(() => {
+    if (isEditing) {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }
+  }, [isEditing]);
+  
+  // 오늘은 상대 시간, 그 이전은 날짜
+  const formatUpdatedAt = (date: Date) =>
+    isSameDay(date, new Date()) ? formatRelativeTime(date) : formatShortDate(date);
+  
+  const startEditing = () => {
+    setTitle(conversation.title);
+    setIsEditing(true);
+  };
+  
+  const commitRename = () => {
+    const trimmed = title.trim();
+    if (trimmed && trimmed !== conversation.title) {
+      onRename(conversation.id, trimmed);
+    }
+    setIsEditing(false);
+  };
+  
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
+  
+  return (
+    <li className="flex items-center gap-2 px-4 py-3 border-b border-gray-100">
+      {isEditing ? (
+        <input
+          ref={inputRef}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={handleKeyDown}
+          className="flex-1 min-w-0 py-1 px-2"
+          aria-label={t('conversations.titleInput')}
+        />
+      ) : (
+        <button
+          onClick={() => onSelect(conversation.id)}
+          className="flex-1 min-w-0 text-start"
+        >
+          <div className="flex items-center justify-between gap-2">
+            <span className="font-medium text-gray-900 truncate">{conversation.title}</span>
+            <span className="text-xs text-gray-400 flex-shrink-0">
+              {formatUpdatedAt(conversation.updatedAt)}
+            </span>
+          </div>
+          <div className="flex items-center justify-between gap-2 mt-0.5">
+            {/* 작성 중인 초안이 있으면 마지막 메시지 대신 표시 */}
+            <span className="text-sm text-gray-500 truncate">
+              {draft ? (
+                <>
+                  <span className="text-red-500 me-1">{t('conversations.draft')}</span>
+                  {getMessagePreview(draft, t)}
+                </>
+              ) : (
+                conversation.lastMessage ?? t('conversations.noMessages')
+              )}
+            </span>
+            {conversation.unreadCount > 0 && (
+              <span
+                className={cn(
+                  'flex-shrink-0 min-w-[20px] h-5 px-1.5 rounded-full',
+                  'bg-red-500 text-white text-xs font-semibold',
+                  'flex items-center justify-center'
+                )}
+                aria-label={t('conversations.unread', { count: conversation.unreadCount })}
+              >
+                {conversation.unreadCount > 99 ? '99+' : conversation.unreadCount}
+              </span>
+            )}
+          </div>
+        </button>
+      )}
+      
+      <button
+        onClick={startEditing}
+        className="flex-shrink-0 p-2 rounded-lg hover:bg-gray-100 active:bg-gray-200 transition-colors"
+        aria-label={t('conversations.rename')}
+      >
+        <svg
+          className="w-4 h-4 text-gray-500"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+        </svg>
+      </button>
+      <button
+        onClick={() => onDelete(conversation.id)}
+        className="flex-shrink-0 p-2 rounded-lg hover:bg-gray-100 active:bg-gray-200 transition-colors"
+        aria-label={t('conversations.delete')}
+      >
+        <svg
+          className="w-4 h-4 text-gray-500"
+          fill="none"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth="2"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+    </li>
+  );
+};
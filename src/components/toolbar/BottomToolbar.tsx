@@ -2,8 +2,16 @@ import React, { useState, useEffect } from 'react';
 import { ToolbarMenu } from './ToolbarMenu';
 import { useKeyboard } from '../../hooks/useKeyboard';
 import { cn } from '../../utils/cn';
+import { useI18n } from '../../hooks/useI18n';
+import type { ComposerActionContext } from '../../composerActions/types';
 
-export const BottomToolbar: React.FC = () => {
+interface BottomToolbarProps {
+  /** 더보기 메뉴의 액션이 다룰 입력창 */
+  composer: ComposerActionContext;
+}
+
+export const BottomToolbar: React.FC<BottomToolbarProps> = ({ composer }) => {
+  const { t } = useI18n();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [referenceLinks, setReferenceLinks] = useState<string[]>([]);
   const { isKeyboardOpen, keyboardHeight } = useKeyboard();
@@ -17,7 +25,6 @@ export const BottomToolbar: React.FC = () => {
   }, []);
   
   const handleLinkClick = (link: string) => {
-    console.log(`Opening link: ${link}`);
     window.open(link, '_blank');
   };
   
@@ -32,7 +39,11 @@ export const BottomToolbar: React.FC = () => {
         'transition-all duration-300 ease-out'
       )}
     >
-      <ToolbarMenu isOpen={isMenuOpen} onClose={() => setIsMenuOpen(false)} />
+      <ToolbarMenu
+        isOpen={isMenuOpen}
+        onClose={() => setIsMenuOpen(false)}
+        composer={composer}
+      />
       
       <div className="flex items-center justify-between px-4 py-2">
         <div className="flex items-center gap-2 flex-1 overflow-x-auto">
@@ -43,7 +54,7 @@ export const BottomToolbar: React.FC = () => {
               'hover:bg-gray-100 active:bg-gray-200',
               'transition-colors'
             )}
-            aria-label="More options"
+            aria-label={t('toolbar.moreOptions')}
           >
             <svg
               className="w-6 h-6 text-gray-600"
@@ -62,7 +73,7 @@ export const BottomToolbar: React.FC = () => {
           
           {referenceLinks.length > 0 && (
             <div className="flex items-center gap-2 overflow-x-auto">
-              <span className="text-xs text-gray-500 flex-shrink-0">참고:</span>
+              <span className="text-xs text-gray-500 flex-shrink-0">{t('toolbar.references')}</span>
               {referenceLinks.map((link, index) => (
                 <button
                   key={index}
@@ -72,7 +83,7 @@ export const BottomToolbar: React.FC = () => {
                     'underline flex-shrink-0 px-1'
                   )}
                 >
-                  링크 {index + 1}
+                  {t('toolbar.link', { index: index + 1 })}
                 </button>
               ))}
             </div>
@@ -81,11 +92,11 @@ export const BottomToolbar: React.FC = () => {
         
         <button
           className={cn(
-            'flex-shrink-0 p-2 rounded-lg ml-2',
+            'flex-shrink-0 p-2 rounded-lg ms-2',
             'hover:bg-gray-100 active:bg-gray-200',
             'transition-colors'
           )}
-          aria-label="Settings"
+          aria-label={t('toolbar.settings')}
         >
           <svg
             className="w-6 h-6 text-gray-600"
@@ -1,24 +1,24 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { cn } from '../../utils/cn';
+import { useI18n } from '../../hooks/useI18n';
+import { useComposerActions } from '../../hooks/useComposerActions';
+import { getComposerActionLabel } from '../../composerActions/registry';
+import type { ComposerAction, ComposerActionContext } from '../../composerActions/types';
 
 interface ToolbarMenuProps {
   isOpen: boolean;
   onClose: () => void;
+  /** 메뉴 액션이 다룰 입력창 */
+  composer: ComposerActionContext;
 }
 
-export const ToolbarMenu: React.FC<ToolbarMenuProps> = ({ isOpen, onClose }) => {
-  const menuItems = [
-    { id: 'camera', icon: '📷', label: '카메라' },
-    { id: 'gallery', icon: '🖼️', label: '갤러리' },
-    { id: 'file', icon: '📁', label: '파일' },
-    { id: 'location', icon: '📍', label: '위치' },
-    { id: 'contact', icon: '👤', label: '연락처' },
-    { id: 'calendar', icon: '📅', label: '일정' },
-  ];
+export const ToolbarMenu: React.FC<ToolbarMenuProps> = ({ isOpen, onClose, composer }) => {
+  const { t } = useI18n();
+  const { actions, runAction } = useComposerActions(composer);
   
-  const handleItemClick = (itemId: string) => {
-    console.log(`Menu item clicked: ${itemId}`);
+  const handleItemClick = (action: ComposerAction) => {
     onClose();
+    runAction(action);
   };
   
   return (
@@ -42,18 +42,28 @@ export const ToolbarMenu: React.FC<ToolbarMenuProps> = ({ isOpen, onClose }) =>
           <div className="w-12 h-1 bg-gray-300 rounded-full mx-auto mb-4" />
           
           <div className="grid grid-cols-3 gap-4">
-            {menuItems.map((item) => (
+            {actions.map((action) => (
               <button
-                key={item.id}
-                onClick={() => handleItemClick(item.id)}
+                key={action.id}
+                onClick={() => handleItemClick(action)}
                 className={cn(
                   'flex flex-col items-center gap-2 p-3',
                   'rounded-lg hover:bg-gray-100 active:bg-gray-200',
                   'transition-colors'
                 )}
               >
-                <span className="text-2xl">{item.icon}</span>
-                <span className="text-xs text-gray-600">{item.label}</span>
+                <svg
+                  className="w-7 h-7 text-gray-600"
+                  fill="none"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth="2"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                >
+                  <path d={action.icon} />
+                </svg>
+                <span className="text-xs text-gray-600">{getComposerActionLabel(action, t)}</span>
               </button>
             ))}
           </div>
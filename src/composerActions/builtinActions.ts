@@ -0,0 +1,165 @@
+import type { I18nContextValue } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/catalog';
+import { createId } from '../utils/id';
+import { pickFiles } from '../utils/filePicker';
+import { ATTACHMENT_PICKER_OPTIONS, type AttachmentSource } from '../utils/attachments';
+import type { ComposerAction, ComposerActionContext } from './types';
+
+/** 수정 중에는 첨부 파일을 넣을 수 없다 */
+const canAttach = ({ isEditing }: ComposerActionContext) => !isEditing;
+
+const createAttachmentAction = (source: AttachmentSource, labelKey: MessageKey, icon: string): ComposerAction => ({
+  id: source,
+  icon,
+  labelKey,
+  isVisible: canAttach,
+  run: async ({ attachFiles }) => {
+    const files = await pickFiles(ATTACHMENT_PICKER_OPTIONS[source]);
+    if (files.length > 0) {
+      await attachFiles(files);
+    }
+  },
+});
+
+/** 위치를 못 찾으면 이 시간 뒤에 포기한다 (ms) */
+const LOCATION_TIMEOUT_MS = 10000;
+
+const getCurrentPosition = (t: I18nContextValue['t']) =>
+  new Promise<GeolocationPosition>((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      resolve,
+      (error) =>
+        reject(
+          new Error(
+            t(error.code === error.PERMISSION_DENIED ? 'composerActions.location.denied' : 'composerActions.location.failed')
+          )
+        ),
+      { enableHighAccuracy: true, timeout: LOCATION_TIMEOUT_MS }
+    );
+  });
+
+/**
+ * 현재 위치의 지도 주소를 입력창에 넣는다 (보내면 링크 미리보기가 붙는다)
+ */
+const locationAction: ComposerAction = {
+  id: 'location',
+  icon: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z',
+  labelKey: 'composerActions.location',
+  isVisible: () => 'geolocation' in navigator,
+  run: async ({ insertText, t }) => {
+    const { coords } = await getCurrentPosition(t);
+    const latitude = coords.latitude.toFixed(6);
+    const longitude = coords.longitude.toFixed(6);
+    insertText(`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=17/${latitude}/${longitude}`);
+  },
+};
+
+/** Contact Picker API (Android Chrome 등 일부 브라우저만 지원하고 lib.dom에는 아직 없다) */
+interface ContactInfo {
+  name?: string[];
+  tel?: string[];
+  email?: string[];
+}
+
+interface ContactsManager {
+  select(properties: (keyof ContactInfo)[], options?: { multiple?: boolean }): Promise<ContactInfo[]>;
+}
+
+const getContactsManager = () => (navigator as Navigator & { contacts?: ContactsManager }).contacts;
+
+/** vCard와 iCalendar의 텍스트 값 이스케이프 (규칙이 같다) */
+const escapeTextValue = (value: string) => value.replace(/[\\,;]/g, '\\$&').replace(/\r?\n/g, '\\n');
+
+/** 파일 이름에 쓸 수 없는 문자는 바꾼다 */
+const toFileName = (name: string) => name.replace(/[\\/:*?"<>|]/g, '_');
+
+/** 연락처 하나를 vCard 3.0 파일로 */
+const createVCardFile = (contact: ContactInfo) => {
+  const name = contact.name?.[0]?.trim() || contact.tel?.[0] || contact.email?.[0] || 'contact';
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeTextValue(name)}`,
+    ...(contact.tel ?? []).map((tel) => `TEL:${escapeTextValue(tel)}`),
+    ...(contact.email ?? []).map((email) => `EMAIL:${escapeTextValue(email)}`),
+    'END:VCARD',
+  ];
+  return new File([lines.join('\r\n')], `${toFileName(name)}.vcf`, { type: 'text/vcard' });
+};
+
+/**
+ * 기기 연락처에서 고른 사람을 연락처 카드(vCard)로 첨부한다
+ */
+const contactAction: ComposerAction = {
+  id: 'contact',
+  icon: 'M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z',
+  labelKey: 'composerActions.contact',
+  isVisible: (context) => canAttach(context) && Boolean(getContactsManager()),
+  run: async ({ attachFiles }) => {
+    const contacts = await getContactsManager()?.select(['name', 'tel', 'email']);
+    if (contacts?.length) {
+      await attachFiles(contacts.map(createVCardFile));
+    }
+  },
+};
+
+/** 새 일정의 길이 (ms) */
+const EVENT_DURATION_MS = 60 * 60 * 1000;
+
+/** iCalendar UTC 시각 (예: 20250103T090000Z) */
+const formatICalendarDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** 다음 정각부터 한 시간짜리 일정을 iCalendar 파일로 */
+const createEventFile = (title: string, now = new Date()) => {
+  const start = new Date(now);
+  start.setHours(start.getHours() + 1, 0, 0, 0);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//chat-ui//composer//EN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${createId()}`,
+    `DTSTAMP:${formatICalendarDate(now)}`,
+    `DTSTART:${formatICalendarDate(start)}`,
+    `DTEND:${formatICalendarDate(new Date(start.getTime() + EVENT_DURATION_MS))}`,
+    `SUMMARY:${escapeTextValue(title)}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return new File([lines.join('\r\n')], `${toFileName(title)}.ics`, { type: 'text/calendar' });
+};
+
+/**
+ * 일정 초대를 첨부한다 (받는 사람이 캘린더 앱으로 열어 시간과 제목을 고친다)
+ */
+const calendarAction: ComposerAction = {
+  id: 'calendar',
+  icon: 'M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z',
+  labelKey: 'composerActions.calendar',
+  isVisible: canAttach,
+  run: async ({ attachFiles, t }) => {
+    await attachFiles([createEventFile(t('composerActions.calendar.eventTitle'))]);
+  },
+};
+
+export const BUILTIN_COMPOSER_ACTIONS: ComposerAction[] = [
+  createAttachmentAction(
+    'camera',
+    'composerActions.camera',
+    'M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9zM15 13a3 3 0 11-6 0 3 3 0 016 0z'
+  ),
+  createAttachmentAction(
+    'gallery',
+    'composerActions.gallery',
+    'M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z'
+  ),
+  createAttachmentAction(
+    'file',
+    'composerActions.file',
+    'M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13'
+  ),
+  locationAction,
+  contactAction,
+  calendarAction,
+];
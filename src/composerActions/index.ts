@@ -0,0 +1,4 @@
+// 입력창 `+` 메뉴 액션 공개 API. 기본 액션 외의 액션은 registerComposerAction으로 추가한다
+export { registerComposerAction, getComposerActionLabel, useComposerActionStore } from './registry';
+
+export type { ComposerAction, ComposerActionContext } from './types';
@@ -0,0 +1,33 @@
+import { create } from 'zustand';
+import type { I18nContextValue } from '../i18n/I18nContext';
+import type { ComposerAction } from './types';
+import { BUILTIN_COMPOSER_ACTIONS } from './builtinActions';
+
+interface ComposerActionStore {
+  /** id → 액션. 등록 순서대로 메뉴에 나온다 */
+  actions: Record<string, ComposerAction>;
+}
+
+export const useComposerActionStore = create<ComposerActionStore>(() => ({
+  actions: Object.fromEntries(BUILTIN_COMPOSER_ACTIONS.map((action) => [action.id, action])),
+}));
+
+/**
+ * 액션을 등록하고 해제 함수를 반환
+ * 같은 id가 이미 있으면 그 자리에서 교체한다 (기본 액션 재정의 가능)
+ */
+export function registerComposerAction(action: ComposerAction): () => void {
+  useComposerActionStore.setState((state) => ({ actions: { ...state.actions, [action.id]: action } }));
+
+  return () => {
+    useComposerActionStore.setState((state) => {
+      // 그 사이 다른 액션으로 교체되었다면 건드리지 않는다
+      if (state.actions[action.id] !== action) return state;
+      return { actions: Object.fromEntries(Object.entries(state.actions).filter(([id]) => id !== action.id)) };
+    });
+  };
+}
+
+export function getComposerActionLabel(action: ComposerAction, t: I18nContextValue['t']): string {
+  return action.labelKey ? t(action.labelKey) : action.label ?? action.id;
+}
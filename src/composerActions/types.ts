@@ -0,0 +1,33 @@
+import type { I18nContextValue } from '../i18n/I18nContext';
+import type { MessageKey } from '../i18n/catalog';
+import type { Attachment } from '../types/chat';
+
+/** 액션을 실행할 때 메뉴를 띄운 입력창이 제공하는 기능 */
+export interface ComposerActionContext {
+  conversationId: string;
+  /** 메시지를 수정하는 중 (첨부 파일은 보낼 수 없다) */
+  isEditing: boolean;
+  /** 입력창에 이미 넣은 첨부 파일 */
+  attachments: Attachment[];
+  t: I18nContextValue['t'];
+  /** 커서 위치에 텍스트를 넣는다 */
+  insertText: (text: string) => void;
+  /** 첨부 파일로 넣는다. 형식, 크기, 개수 검사는 입력창이 하고 문제가 있으면 안내한다 */
+  attachFiles: (files: File[]) => Promise<void>;
+}
+
+/**
+ * 입력창 `+` 메뉴의 항목
+ * 문구는 번역 키(…Key)나 직접 쓴 문자열 중 하나로 지정한다
+ */
+export interface ComposerAction {
+  id: string;
+  /** 24×24 선 아이콘의 SVG path */
+  icon: string;
+  label?: string;
+  labelKey?: MessageKey;
+  /** false면 메뉴에 보이지 않는다 (브라우저 지원 여부, 수정 중 등). 없으면 항상 보인다 */
+  isVisible?: (context: ComposerActionContext) => boolean;
+  /** 메뉴를 닫은 뒤 실행. 오류를 던지면 메시지를 안내로 보여준다 */
+  run: (context: ComposerActionContext) => void | Promise<void>;
+}
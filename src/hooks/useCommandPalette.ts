@@ -0,0 +1,40 @@
+import { useMemo, useState } from 'react';
+import { matchCommands, useCommandStore } from '../commands/registry';
+
+/** 자동완성 항목의 id (입력창의 aria-activedescendant) */
+export const getCommandOptionId = (paletteId: string, index: number) => `${paletteId}-option-${index}`;
+
+/**
+ * 입력창에서 `/명령` 이름을 입력하는 동안 보여줄 자동완성 목록
+ * 이름 뒤에 공백을 넣으면(인자 입력) 닫히고, dismiss로 닫으면 입력이 바뀔 때까지 열지 않는다
+ */
+export function useCommandPalette(input: string) {
+  const commands = useCommandStore((state) => state.commands);
+  const query = /^\/([^\s/]*)$/.exec(input)?.[1];
+  const [active, setActive] = useState({ query, index: 0 });
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+
+  const matches = useMemo(
+    () => (query === undefined ? [] : matchCommands(Object.values(commands), query)),
+    [commands, query]
+  );
+  const isOpen = matches.length > 0 && dismissedInput !== input;
+  // 검색어가 바뀌면 첫 항목부터
+  const activeIndex = active.query === query ? Math.min(active.index, matches.length - 1) : 0;
+
+  const setActiveIndex = (index: number) => setActive({ query, index });
+
+  const moveActive = (delta: number) => {
+    setActiveIndex((activeIndex + delta + matches.length) % matches.length);
+  };
+
+  return {
+    isOpen,
+    matches,
+    activeIndex,
+    activeCommand: isOpen ? matches[activeIndex] : undefined,
+    setActiveIndex,
+    moveActive,
+    dismiss: () => setDismissedInput(input),
+  };
+}
@@ -0,0 +1,24 @@
+import { useComposerActionStore } from '../composerActions/registry';
+import { useToastStore } from '../store/toastStore';
+import type { ComposerAction, ComposerActionContext } from '../composerActions/types';
+
+/**
+ * 입력창 메뉴에 보여줄 액션과 실행 함수
+ * 실행 중 오류는 안내로 보여준다
+ */
+export function useComposerActions(context: ComposerActionContext) {
+  const registered = useComposerActionStore((state) => state.actions);
+  const showToast = useToastStore((state) => state.showToast);
+  const actions = Object.values(registered).filter((action) => action.isVisible?.(context) ?? true);
+
+  const runAction = async (action: ComposerAction) => {
+    try {
+      await action.run(context);
+    } catch (error) {
+      console.error(`Failed to run composer action ${action.id}:`, error);
+      showToast({ message: error instanceof Error && error.message ? error.message : context.t('composerActions.failed') });
+    }
+  };
+
+  return { actions, runAction };
+}
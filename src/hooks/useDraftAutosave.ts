@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useChatStore, type Draft } from '../store/chatStore';
+
+const DRAFT_SAVE_DELAY_MS = 500;
+
+/**
+ * 작성 중인 내용을 대화별 초안으로 저장 (디바운스)
+ * 화면을 벗어나거나 페이지가 닫힐 때는 기다리지 않고 바로 저장
+ * draft가 null이면(메시지 수정 중 등) 대기 중인 초안만 저장하고 더 이상 저장하지 않는다
+ */
+export function useDraftAutosave(conversationId: string, draft: Draft | null) {
+  const setDraft = useChatStore((state) => state.setDraft);
+  const pendingRef = useRef<Draft | null>(null);
+
+  const flush = useCallback(() => {
+    if (!pendingRef.current) return;
+    setDraft(conversationId, pendingRef.current);
+    pendingRef.current = null;
+  }, [conversationId, setDraft]);
+
+  useEffect(() => {
+    if (!draft) {
+      flush();
+      return;
+    }
+    pendingRef.current = draft;
+    const timeout = setTimeout(flush, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [draft, flush]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+
+interface ElementSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * ResizeObserver로 요소 크기를 추적
+ * 반환된 ref 콜백을 측정할 요소에 연결
+ */
+export function useElementSize<T extends HTMLElement>() {
+  const [element, setElement] = useState<T | null>(null);
+  const [size, setSize] = useState<ElementSize>({ width: 0, height: 0 });
+  
+  const ref = useCallback((node: T | null) => {
+    setElement(node);
+  }, []);
+  
+  useEffect(() => {
+    if (!element) return;
+    
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize((prev) =>
+        prev.width === width && prev.height === height ? prev : { width, height }
+      );
+    });
+    observer.observe(element);
+    
+    return () => observer.disconnect();
+  }, [element]);
+  
+  return { ref, ...size };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+export type Route =
+  | { name: 'conversations' }
+  | { name: 'chat'; conversationId: string };
+
+/**
+ * location.hash를 라우트로 변환
+ * - #/          → 대화 목록
+ * - #/chat/:id  → 대화 화면
+ */
+export function parseHash(hash: string): Route {
+  const match = hash.match(/^#\/chat\/([^/]+)$/);
+  if (match) {
+    return { name: 'chat', conversationId: decodeURIComponent(match[1]) };
+  }
+  return { name: 'conversations' };
+}
+
+export function toHash(route: Route): string {
+  return route.name === 'chat'
+    ? `#/chat/${encodeURIComponent(route.conversationId)}`
+    : '#/';
+}
+
+const subscribe = (callback: () => void) => {
+  window.addEventListener('hashchange', callback);
+  return () => window.removeEventListener('hashchange', callback);
+};
+
+const getSnapshot = () => window.location.hash;
+
+/**
+ * 해시 기반 라우팅 (브라우저 뒤로가기 지원)
+ */
+export function useHashRoute() {
+  const hash = useSyncExternalStore(subscribe, getSnapshot);
+
+  const navigate = useCallback((route: Route) => {
+    window.location.hash = toHash(route);
+  }, []);
+
+  return { route: parseHash(hash), navigate };
+}
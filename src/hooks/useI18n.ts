@@ -0,0 +1,6 @@
+import { useContext } from 'react';
+import { I18nContext, type I18nContextValue } from '../i18n/I18nContext';
+
+export function useI18n(): I18nContextValue {
+  return useContext(I18nContext);
+}
@@ -0,0 +1,25 @@
+import { useContext } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { UnfurlContext } from '../api/UnfurlContext';
+import type { LinkPreview } from '../api/unfurl';
+
+/** 쓰이지 않는 미리보기를 캐시에 남겨 둘 시간. 목록을 스크롤해 다시 보여도 새로 가져오지 않는다 */
+const PREVIEW_CACHE_TIME_MS = 30 * 60 * 1000;
+
+/**
+ * 주소의 링크 미리보기 (주소별로 캐시)
+ * url이 null이거나 아직 가져오는 중, 실패, 미리보기가 없는 페이지면 null
+ */
+export function useLinkPreview(url: string | null): LinkPreview | null {
+  const service = useContext(UnfurlContext);
+  const { data } = useQuery({
+    queryKey: ['linkPreview', url],
+    queryFn: ({ signal }) => (url ? service.unfurl(url, signal) : null),
+    enabled: url !== null,
+    // 페이지 정보는 자주 바뀌지 않으므로 한 번 가져오면 다시 요청하지 않는다
+    staleTime: Infinity,
+    gcTime: PREVIEW_CACHE_TIME_MS,
+    retry: false,
+  });
+  return data ?? null;
+}
@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { TouchEvent } from 'react';
+
+interface LongPressOptions {
+  /** 길게 누름으로 인정하는 시간 (ms) */
+  delay?: number;
+  /** 이 거리 이상 움직이면 스크롤로 보고 취소 (px) */
+  moveTolerance?: number;
+}
+
+/**
+ * 터치 길게 누르기 감지
+ * 콜백에는 누른 지점의 좌표가 전달된다
+ */
+export function useLongPress(
+  onLongPress: (point: { x: number; y: number }) => void,
+  { delay = 500, moveTolerance = 10 }: LongPressOptions = {}
+) {
+  const timerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+
+  const cancel = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = undefined;
+    }
+    startRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const onTouchStart = useCallback((e: TouchEvent) => {
+    const touch = e.touches[0];
+    if (!touch) return;
+
+    const point = { x: touch.clientX, y: touch.clientY };
+    startRef.current = point;
+    timerRef.current = setTimeout(() => {
+      timerRef.current = undefined;
+      onLongPress(point);
+    }, delay);
+  }, [onLongPress, delay]);
+
+  const onTouchMove = useCallback((e: TouchEvent) => {
+    const touch = e.touches[0];
+    const start = startRef.current;
+    if (!touch || !start) return;
+
+    if (Math.hypot(touch.clientX - start.x, touch.clientY - start.y) > moveTolerance) {
+      cancel();
+    }
+  }, [moveTolerance, cancel]);
+
+  return {
+    onTouchStart,
+    onTouchMove,
+    onTouchEnd: cancel,
+    onTouchCancel: cancel,
+  };
+}
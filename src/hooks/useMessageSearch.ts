@@ -0,0 +1,68 @@
+import { useCallback, useDeferredValue, useMemo, useState } from 'react';
+import { useChatStore } from '../store/chatStore';
+import { matchesSearch, parseSearchQuery } from '../utils/search';
+import { useTransport } from './useTransport';
+import { useMessageTree } from './useMessageTree';
+import type { Message } from '../types/chat';
+
+/** 이전 메시지에서 더 찾을 때 한 번에 불러올 최대 페이지 수 */
+const PAGES_PER_SEARCH = 5;
+
+const getSearchableText = (message: Message) =>
+  [message.content, ...(message.attachments?.map((attachment) => attachment.name) ?? [])].join('\n');
+
+/**
+ * 대화 내 메시지 검색
+ * 보고 있는 갈래의 메시지를 최신순으로 찾고, searchOlder로 아직 로드되지 않은 이전 페이지까지 넓힌다
+ */
+export function useMessageSearch(conversationId: string, query: string) {
+  const transport = useTransport();
+  const { thread: messages } = useMessageTree(conversationId);
+  const hasMore = useChatStore((state) => state.hasMore[conversationId] ?? true);
+  const [isSearchingOlder, setIsSearchingOlder] = useState(false);
+  const deferredQuery = useDeferredValue(query);
+
+  const terms = useMemo(() => parseSearchQuery(deferredQuery), [deferredQuery]);
+
+  const matchIds = useMemo(() => {
+    if (terms.length === 0) return [];
+    return messages
+      .filter((message) => matchesSearch(getSearchableText(message), terms))
+      .map((message) => message.id)
+      .reverse();
+  }, [messages, terms]);
+
+  /**
+   * 새 일치 항목이 나오거나 히스토리 끝에 닿을 때까지 이전 페이지를 불러온다
+   */
+  const searchOlder = useCallback(async () => {
+    if (terms.length === 0 || isSearchingOlder) return;
+
+    const { setLoading, setHasMore, prependMessages } = useChatStore.getState();
+    setIsSearchingOlder(true);
+    setLoading(true);
+    try {
+      for (let page = 0; page < PAGES_PER_SEARCH; page++) {
+        const { messages: loaded, hasMore: loadedHasMore } = useChatStore.getState();
+        const current = loaded[conversationId] ?? [];
+        if (loadedHasMore[conversationId] === false || current.length === 0) break;
+
+        const olderMessages = await transport.fetchHistory(conversationId, current[0].id);
+        if (olderMessages.length === 0) {
+          setHasMore(conversationId, false);
+          break;
+        }
+        prependMessages(conversationId, olderMessages);
+
+        if (olderMessages.some((message) => matchesSearch(getSearchableText(message), terms))) break;
+      }
+    } catch (error) {
+      console.error('Failed to search older messages:', error);
+    } finally {
+      setLoading(false);
+      setIsSearchingOlder(false);
+    }
+  }, [conversationId, terms, transport, isSearchingOlder]);
+
+  return { terms, matchIds, hasMore, isSearchingOlder, searchOlder };
+}
@@ -0,0 +1,16 @@
+import { useMemo } from 'react';
+import { useChatStore } from '../store/chatStore';
+import { buildMessageTree, type MessageTree } from '../utils/messageTree';
+import type { Message } from '../types/chat';
+
+const EMPTY_MESSAGES: Message[] = [];
+
+/**
+ * 대화에서 지금 보고 있는 갈래의 메시지들과 버전 정보
+ * 메시지나 갈래 선택이 바뀔 때만 다시 계산한다
+ */
+export function useMessageTree(conversationId: string): MessageTree {
+  const messages = useChatStore((state) => state.messages[conversationId] ?? EMPTY_MESSAGES);
+  const selection = useChatStore((state) => state.branches[conversationId]);
+  return useMemo(() => buildMessageTree(messages, selection), [messages, selection]);
+}
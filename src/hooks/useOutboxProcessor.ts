@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from 'react';
+import { useOutboxStore, type OutboxItem } from '../store/outboxStore';
+import { useChatStore } from '../store/chatStore';
+import { ATTACHMENT_ONLY_PROMPT, streamAssistantReply } from '../api/replyStream';
+import { useTransport } from './useTransport';
+import { useOnlineStatus } from './useOnlineStatus';
+
+/** 이 횟수만큼 실패하면 전송을 포기하고 오류로 표시 */
+export const MAX_SEND_ATTEMPTS = 5;
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * 지수 백오프 + 지터 (1s, 2s, 4s, ... 최대 30s)
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * 아웃박스에 쌓인 메시지를 온라인일 때 전송
+ * - 메시지마다 독립적으로 동시에 전송하고, 수락되면 서버 id로 바꾼다 (목록 위치는 유지)
+ * - 실패하면 백오프 후 재시도, MAX_SEND_ATTEMPTS회 실패 시 메시지를 'error'로 표시
+ * - 오프라인 중의 실패는 시도 횟수로 세지 않고 온라인 복귀를 기다림
+ */
+export function useOutboxProcessor() {
+  const transport = useTransport();
+  const isOnline = useOnlineStatus();
+  const items = useOutboxStore((state) => state.items);
+  const inFlightRef = useRef<Set<string>>(new Set());
+  const [wakeUpCount, setWakeUpCount] = useState(0);
+  
+  useEffect(() => {
+    if (!isOnline) return;
+    
+    const deliver = async (item: OutboxItem) => {
+      const { updateItem, removeItem } = useOutboxStore.getState();
+      const { conversations, updateMessage, confirmMessage } = useChatStore.getState();
+      
+      // 그 사이 삭제된 대화
+      if (!conversations[item.conversationId]) {
+        removeItem(item.messageId);
+        return;
+      }
+      
+      inFlightRef.current.add(item.messageId);
+      try {
+        const accepted = await transport.send(item.conversationId, {
+          clientId: item.messageId,
+          content: item.content,
+          attachments: item.attachments,
+        });
+        removeItem(item.messageId);
+        confirmMessage(item.conversationId, item.messageId, accepted);
+        // 전송 중에 삭제된 메시지에는 응답하지 않는다
+        // 응답은 이 메시지 바로 뒤에 붙이고, 응답을 기다리는 사이 보낸 메시지는 응답 뒤로 옮긴다
+        const { messages } = useChatStore.getState();
+        if (messages[item.conversationId]?.some((message) => message.id === accepted.id)) {
+          streamAssistantReply(transport, item.conversationId, item.content || ATTACHMENT_ONLY_PROMPT, {
+            afterId: accepted.id,
+          });
+        }
+      } catch (error) {
+        if (!navigator.onLine) return;
+        
+        const attempts = item.attempts + 1;
+        if (attempts >= MAX_SEND_ATTEMPTS) {
+          console.error('Failed to send message:', error);
+          removeItem(item.messageId);
+          updateMessage(item.conversationId, item.messageId, { status: 'error' });
+        } else {
+          updateItem(item.messageId, {
+            attempts,
+            nextAttemptAt: Date.now() + getRetryDelay(attempts),
+          });
+        }
+      } finally {
+        inFlightRef.current.delete(item.messageId);
+      }
+    };
+    
+    const now = Date.now();
+    const pending = items.filter((item) => !inFlightRef.current.has(item.messageId));
+    
+    pending
+      .filter((item) => item.nextAttemptAt <= now)
+      .forEach(deliver);
+    
+    // 가장 이른 재시도 시각에 다시 깨어난다
+    const nextAttemptAt = Math.min(
+      ...pending.filter((item) => item.nextAttemptAt > now).map((item) => item.nextAttemptAt)
+    );
+    if (Number.isFinite(nextAttemptAt)) {
+      const timeout = setTimeout(() => setWakeUpCount((count) => count + 1), nextAttemptAt - now);
+      return () => clearTimeout(timeout);
+    }
+  }, [isOnline, items, transport, wakeUpCount]);
+}
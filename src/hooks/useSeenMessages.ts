@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, type RefObject } from 'react';
+import { useChatStore } from '../store/chatStore';
+
+/** 메시지가 이 비율 이상 보이면 (또는 화면의 이 비율 이상을 차지하면) 본 것으로 간주 */
+const SEEN_RATIO = 0.5;
+
+/** 화면보다 긴 메시지도 보이는 부분이 늘어날 때마다 다시 판단하도록 촘촘하게 */
+const THRESHOLDS = Array.from({ length: 21 }, (_, index) => index / 20);
+
+/**
+ * 화면에 충분히 보인 메시지를 본 것으로 기록 (IntersectionObserver)
+ * 반환한 observe(element, timestamp)를 메시지 행에서 호출하고, 돌려받은 함수로 해제한다
+ * 다른 탭을 보고 있을 때는 기록하지 않음
+ */
+export function useSeenMessages(conversationId: string, rootRef: RefObject<HTMLElement | null>) {
+  const markSeen = useChatStore((state) => state.markSeen);
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const timestampsRef = useRef(new WeakMap<Element, number>());
+
+  // 스크롤 요소는 목록이 그려진 뒤에 정해지므로 처음 관찰할 때 만든다
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new IntersectionObserver((entries) => {
+        if (document.visibilityState !== 'visible') return;
+
+        const seen = entries
+          .filter((entry) =>
+            entry.isIntersecting &&
+            (entry.intersectionRatio >= SEEN_RATIO ||
+              entry.intersectionRect.height >= (entry.rootBounds?.height ?? Infinity) * SEEN_RATIO)
+          )
+          .map((entry) => timestampsRef.current.get(entry.target) ?? 0);
+        if (seen.length > 0) {
+          markSeen(conversationId, Math.max(...seen));
+        }
+      }, {
+        root: rootRef.current,
+        threshold: THRESHOLDS,
+      });
+    }
+    return observerRef.current;
+  }, [conversationId, markSeen, rootRef]);
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect();
+      observerRef.current = null;
+    };
+  }, [getObserver]);
+
+  return useCallback((element: Element, timestamp: number) => {
+    const observer = getObserver();
+    timestampsRef.current.set(element, timestamp);
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [getObserver]);
+}
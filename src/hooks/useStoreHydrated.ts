@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+
+interface PersistedStore {
+  persist: {
+    hasHydrated: () => boolean;
+    onFinishHydration: (listener: () => void) => () => void;
+  };
+}
+
+/**
+ * persist 미들웨어를 쓰는 스토어가 IndexedDB에서 복원을 마쳤는지 여부
+ */
+export function useStoreHydrated(store: PersistedStore): boolean {
+  return useSyncExternalStore(
+    store.persist.onFinishHydration,
+    store.persist.hasHydrated
+  );
+}
@@ -0,0 +1,7 @@
+import { useContext } from 'react';
+import { TransportContext } from '../api/TransportContext';
+import type { ChatTransport } from '../api/transport';
+
+export function useTransport(): ChatTransport {
+  return useContext(TransportContext);
+}
@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { TYPING_TTL_MS } from '../store/presenceStore';
+import { useTransport } from './useTransport';
+
+/** 계속 입력하는 동안 이 간격으로만 알림을 다시 보낸다 (상대 쪽 만료보다 짧게) */
+const TYPING_THROTTLE_MS = TYPING_TTL_MS / 2;
+
+/**
+ * 입력창 키 입력을 상대에게 보낼 입력 중 알림으로 바꾼다
+ * - notifyTyping: 키 입력마다 호출. 스로틀되어 전송
+ * - stopTyping: 전송하거나 입력을 비웠을 때 호출
+ */
+export function useTypingNotifier(conversationId: string) {
+  const transport = useTransport();
+  const lastSentAtRef = useRef(0);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentAtRef.current < TYPING_THROTTLE_MS) return;
+
+    lastSentAtRef.current = now;
+    transport.sendTyping(conversationId, true);
+  }, [conversationId, transport]);
+
+  const stopTyping = useCallback(() => {
+    if (lastSentAtRef.current === 0) return;
+
+    lastSentAtRef.current = 0;
+    transport.sendTyping(conversationId, false);
+  }, [conversationId, transport]);
+
+  // 대화를 떠나면 입력 중 표시를 거둔다
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
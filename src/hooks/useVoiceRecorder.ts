@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { VoiceRecorder, type MediaStreamProvider, type VoiceRecording } from '../utils/voiceRecorder';
+
+/** 녹음 중 화면에 보여줄 최근 입력 크기 개수 */
+const LIVE_LEVEL_COUNT = 30;
+
+const ELAPSED_UPDATE_INTERVAL_MS = 200;
+
+/**
+ * 음성 녹음 상태
+ * start가 끝나기 전에(권한 요청 중 등) stop/cancel을 불러도 시작을 기다린 뒤 처리한다
+ */
+export function useVoiceRecorder(getStream?: MediaStreamProvider) {
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [levels, setLevels] = useState<number[]>([]);
+  const recorderRef = useRef<VoiceRecorder | null>(null);
+  const startingRef = useRef<Promise<void> | null>(null);
+
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const startedAt = Date.now();
+    const interval = setInterval(() => setElapsedMs(Date.now() - startedAt), ELAPSED_UPDATE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
+  const start = useCallback(async () => {
+    if (recorderRef.current) return;
+
+    const recorder = new VoiceRecorder(getStream);
+    recorderRef.current = recorder;
+    setLevels([]);
+    setElapsedMs(0);
+    setIsRecording(true);
+
+    startingRef.current = recorder.start((level) => {
+      setLevels((current) => [...current, level].slice(-LIVE_LEVEL_COUNT));
+    });
+    try {
+      await startingRef.current;
+    } catch (error) {
+      if (recorderRef.current === recorder) {
+        recorderRef.current = null;
+        setIsRecording(false);
+      }
+      throw error;
+    }
+  }, [getStream]);
+
+  const finish = useCallback(async (save: boolean): Promise<VoiceRecording | null> => {
+    const recorder = recorderRef.current;
+    if (!recorder) return null;
+
+    recorderRef.current = null;
+    setIsRecording(false);
+    try {
+      await startingRef.current;
+    } catch {
+      return null;
+    }
+
+    if (!save) {
+      recorder.cancel();
+      return null;
+    }
+    return recorder.stop();
+  }, []);
+
+  const stop = useCallback(() => finish(true), [finish]);
+  const cancel = useCallback(() => finish(false), [finish]);
+
+  // 녹음 중에 화면을 벗어나면 버린다
+  useEffect(() => {
+    return () => {
+      void cancel();
+    };
+  }, [cancel]);
+
+  return { isRecording, elapsedMs, levels, start, stop, cancel };
+}
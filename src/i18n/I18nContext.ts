@@ -0,0 +1,48 @@
+import { createContext } from 'react';
+import {
+  DEFAULT_LOCALE,
+  getTextDirection,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from './catalog';
+import { formatDateLabel, formatRelativeTime, formatShortDate, formatTime } from './format';
+
+export interface I18nContextValue {
+  locale: Locale;
+  /** 사용자가 고른 언어. null이면 브라우저 설정 */
+  preferredLocale: Locale | null;
+  dir: 'ltr' | 'rtl';
+  setPreferredLocale: (locale: Locale | null) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatTime: (date: Date) => string;
+  formatShortDate: (date: Date) => string;
+  formatDateLabel: (date: Date) => string;
+  formatRelativeTime: (date: Date) => string;
+}
+
+export function createI18nValue(
+  locale: Locale,
+  preferredLocale: Locale | null,
+  setPreferredLocale: (locale: Locale | null) => void
+): I18nContextValue {
+  return {
+    locale,
+    preferredLocale,
+    dir: getTextDirection(locale),
+    setPreferredLocale,
+    t: (key, params) => translate(locale, key, params),
+    formatTime: (date) => formatTime(date, locale),
+    formatShortDate: (date) => formatShortDate(date, locale),
+    formatDateLabel: (date) => formatDateLabel(date, locale),
+    formatRelativeTime: (date) => formatRelativeTime(date, locale),
+  };
+}
+
+/**
+ * Provider 없이 렌더링될 때는 기본 언어로 표시
+ */
+export const I18nContext = createContext<I18nContextValue>(
+  createI18nValue(DEFAULT_LOCALE, null, () => {})
+);
@@ -0,0 +1,37 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { I18nContext, createI18nValue } from './I18nContext';
+import { detectLocale } from './catalog';
+import { useLocaleStore } from '../store/localeStore';
+
+interface I18nProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * 현재 언어와 번역 함수를 제공하고 <html>의 lang/dir을 맞춘다
+ * 언어를 직접 고르지 않았으면 브라우저 언어 설정 변경도 따라간다
+ */
+export const I18nProvider: React.FC<I18nProviderProps> = ({ children }) => {
+  const preferredLocale = useLocaleStore((state) => state.preferredLocale);
+  const setPreferredLocale = useLocaleStore((state) => state.setPreferredLocale);
+  const [detectedLocale, setDetectedLocale] = useState(() => detectLocale());
+  const locale = preferredLocale ?? detectedLocale;
+
+  useEffect(() => {
+    const handleLanguageChange = () => setDetectedLocale(detectLocale());
+    window.addEventListener('languagechange', handleLanguageChange);
+    return () => window.removeEventListener('languagechange', handleLanguageChange);
+  }, []);
+
+  const value = useMemo(
+    () => createI18nValue(locale, preferredLocale, setPreferredLocale),
+    [locale, preferredLocale, setPreferredLocale]
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.dir;
+  }, [locale, value.dir]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
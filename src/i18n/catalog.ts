@@ -0,0 +1,71 @@
+import { ko } from './locales/ko';
+import { en } from './locales/en';
+import { ar } from './locales/ar';
+
+export const SUPPORTED_LOCALES = ['ko', 'en', 'ar'] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+/** 각 언어의 자기 이름 (언어 선택 목록용) */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  ko: '한국어',
+  en: 'English',
+  ar: 'العربية',
+};
+
+const RTL_LOCALES: ReadonlySet<Locale> = new Set<Locale>(['ar']);
+
+/** 복수형 문구. Intl.PluralRules 분류별 문구를 두고 other는 필수 */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageValue = string | PluralMessage;
+
+export type MessageKey = keyof typeof ko;
+
+export type Catalog = Record<MessageKey, MessageValue>;
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Catalog> = { ko, en, ar };
+
+export function isSupportedLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+export function getTextDirection(locale: Locale): 'ltr' | 'rtl' {
+  return RTL_LOCALES.has(locale) ? 'rtl' : 'ltr';
+}
+
+/**
+ * 브라우저 언어 설정에서 지원하는 첫 언어 (예: 'en-US' → 'en')
+ */
+export function detectLocale(languages: readonly string[] = navigator.languages ?? [navigator.language]): Locale {
+  for (const language of languages) {
+    const base = language.toLowerCase().split('-')[0];
+    if (isSupportedLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+const interpolate = (template: string, params: MessageParams) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+
+/**
+ * 카탈로그에서 문구를 찾아 {name} 자리에 params를 채운다
+ * 복수형 문구는 params.count로 분류를 고른다
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const value = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key];
+
+  if (typeof value === 'string') {
+    return interpolate(value, params);
+  }
+
+  const count = Number(params.count ?? 0);
+  const category = new Intl.PluralRules(locale).select(count);
+  return interpolate(value[category] ?? value.other, params);
+}
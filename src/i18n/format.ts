@@ -0,0 +1,57 @@
+import { isSameDay } from '../utils/date';
+import type { Locale } from './catalog';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const capitalize = (text: string, locale: Locale) =>
+  text.charAt(0).toLocaleUpperCase(locale) + text.slice(1);
+
+/** 시:분 */
+export function formatTime(date: Date, locale: Locale): string {
+  return new Date(date).toLocaleTimeString(locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/** 월 일 (예: 1월 3일, Jan 3) */
+export function formatShortDate(date: Date, locale: Locale): string {
+  return new Date(date).toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * 날짜 구분선 라벨: 오늘 / 어제 / 2024년 1월 3일 수요일
+ */
+export function formatDateLabel(date: Date, locale: Locale, now: Date = new Date()): string {
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+  if (isSameDay(date, now)) return capitalize(relative.format(0, 'day'), locale);
+  if (isSameDay(date, new Date(now.getTime() - DAY_MS))) return capitalize(relative.format(-1, 'day'), locale);
+
+  return new Date(date).toLocaleDateString(locale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    weekday: 'long',
+  });
+}
+
+/**
+ * 지금으로부터의 상대 시간 (예: 방금, 5분 전, 3시간 전)
+ * 하루가 넘으면 날짜로 표시
+ */
+export function formatRelativeTime(date: Date, locale: Locale, now: Date = new Date()): string {
+  const elapsed = now.getTime() - new Date(date).getTime();
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+
+  if (elapsed < MINUTE_MS) return relative.format(0, 'second');
+  if (elapsed < HOUR_MS) return relative.format(-Math.floor(elapsed / MINUTE_MS), 'minute');
+  if (elapsed < DAY_MS) return relative.format(-Math.floor(elapsed / HOUR_MS), 'hour');
+  return formatShortDate(date, locale);
+}
+
+/** 날짜와 시각 (대화 내보내기 등 맥락 없이 읽는 곳에 사용) */
+export function formatDateTime(date: Date, locale: Locale): string {
+  return new Date(date).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+}
@@ -0,0 +1,187 @@
+import type { Catalog } from '../catalog';
+
+/**
+ * 아랍어 카탈로그 (RTL 레이아웃 확인용)
+ */
+export const ar: Catalog = {
+  'common.cancel': 'إلغاء',
+  'common.delete': 'حذف',
+  'common.undo': 'تراجع',
+  'common.copy': 'نسخ',
+  'common.copied': 'تم النسخ',
+  'common.close': 'إغلاق',
+  'common.download': 'تنزيل',
+
+  'sender.user': 'أنت',
+  'sender.assistant': 'المساعد',
+
+  'settings.language': 'اللغة',
+  'settings.languageAuto': 'تلقائي (المتصفح)',
+
+  'conversations.title': 'المحادثات',
+  'conversations.new': 'محادثة جديدة',
+  'conversations.empty': 'لا توجد محادثات',
+  'conversations.defaultTitle': 'دردشة',
+  'conversations.newTitle': 'محادثة جديدة',
+  'conversations.noMessages': 'لا توجد رسائل',
+  'conversations.draft': '[مسودة]',
+  'conversations.deleteConfirm': "هل تريد حذف المحادثة '{title}'؟",
+  'conversations.import': 'استيراد محادثة',
+  'conversations.rename': 'إعادة تسمية المحادثة',
+  'conversations.delete': 'حذف المحادثة',
+  'conversations.titleInput': 'عنوان المحادثة',
+  'conversations.unread': {
+    zero: 'لا توجد رسائل غير مقروءة',
+    one: 'رسالة واحدة غير مقروءة',
+    two: 'رسالتان غير مقروءتين',
+    few: '{count} رسائل غير مقروءة',
+    many: '{count} رسالة غير مقروءة',
+    other: '{count} رسالة غير مقروءة',
+  },
+
+  'chat.back': 'العودة إلى المحادثات',
+  'chat.offline': 'أنت غير متصل. سيتم إرسال الرسائل عند عودة الاتصال.',
+  'chat.start': 'هذه بداية المحادثة',
+  'chat.typing': 'يكتب الآن…',
+  'chat.scrollToBottom': 'الانتقال إلى الأسفل',
+  'chat.unreadDivider': 'رسائل غير مقروءة',
+  'chat.jumpToUnread': 'الانتقال إلى الرسائل غير المقروءة',
+  'chat.newMessages': {
+    zero: 'لا توجد رسائل جديدة',
+    one: 'رسالة جديدة واحدة',
+    two: 'رسالتان جديدتان',
+    few: '{count} رسائل جديدة',
+    many: '{count} رسالة جديدة',
+    other: '{count} رسالة جديدة',
+  },
+
+  'search.open': 'البحث في الرسائل',
+  'search.placeholder': 'البحث في هذه المحادثة',
+  'search.searching': 'جارٍ البحث...',
+  'search.noResults': 'لا توجد نتائج',
+  'search.position': '{current} من {total}',
+  'search.previous': 'النتيجة السابقة',
+  'search.next': 'النتيجة التالية',
+  'search.close': 'إغلاق البحث',
+
+  'composer.placeholder': 'اكتب رسالة...',
+  'composer.moreOptions': 'خيارات إضافية',
+  'composer.send': 'إرسال الرسالة',
+  'composer.stop': 'إيقاف الإنشاء',
+  'composer.editing': 'تعديل الرسالة',
+  'composer.editingBranch': 'تعديل كفرع جديد',
+  'composer.replyingTo': 'الرد على {name}',
+  'composer.cancelEdit': 'إلغاء التعديل',
+  'composer.cancelReply': 'إلغاء الرد',
+  'composer.record': 'اضغط مع الاستمرار لتسجيل رسالة صوتية',
+  'composer.slideToCancel': '‹ اسحب للإلغاء',
+  'composer.recordTooShort': 'التسجيل قصير جدًا. اضغط مع الاستمرار على الزر للتسجيل',
+  'composer.micUnavailable': 'الميكروفون غير متاح',
+
+  'composerActions.camera': 'الكاميرا',
+  'composerActions.gallery': 'المعرض',
+  'composerActions.file': 'ملف',
+  'composerActions.location': 'الموقع',
+  'composerActions.contact': 'جهة اتصال',
+  'composerActions.calendar': 'التقويم',
+  'composerActions.failed': 'تعذر تنفيذ الإجراء',
+  'composerActions.location.denied': 'الوصول إلى الموقع محظور. اسمح به من إعدادات المتصفح',
+  'composerActions.location.failed': 'تعذر تحديد موقعك الحالي',
+  'composerActions.calendar.eventTitle': 'حدث جديد',
+
+  'attachments.remove': 'إزالة {name}',
+  'attachments.view': 'عرض {name}',
+  'attachments.tooLarge': '{name}: لا يمكن إرفاق ملفات أكبر من {size}',
+  'attachments.unsupportedType': '{name}: نوع ملف غير مدعوم',
+  'attachments.tooMany': { other: 'يمكنك إرفاق {count} ملفات كحد أقصى' },
+  'attachments.readFailed': 'تعذّرت قراءة الملف',
+  'attachments.closeViewer': 'إغلاق العارض',
+
+  'preview.photo': 'صورة',
+  'preview.file': 'ملف',
+  'preview.voice': 'رسالة صوتية',
+
+  'commands.list': 'الأوامر',
+  'commands.unknown': 'أمر غير معروف: /{name}',
+  'commands.missingArgument': 'الاستخدام: {usage}',
+  'commands.failed': 'تعذر تنفيذ الأمر',
+  'commands.clear.description': 'مسح المحادثة من الشاشة',
+  'commands.clear.done': 'تم مسح المحادثة',
+  'commands.search.description': 'البحث عن الرسائل في هذه المحادثة',
+  'commands.search.query': 'نص البحث',
+  'commands.retry.description': 'إعادة إرسال الرسائل الفاشلة أو إعادة إنشاء آخر رد',
+  'commands.retry.nothing': 'لا يوجد ما يمكن إعادة إرساله',
+  'commands.export.description': 'تصدير المحادثة (json أو markdown أو text)',
+  'commands.import.description': 'استيراد محادثة مصدّرة بصيغة JSON إلى هذه المحادثة (merge للدمج أو replace للاستبدال)',
+
+  'export.unsupportedFormat': 'صيغة غير مدعومة: {format} (اختر من {formats})',
+  'import.invalidJson': 'تعذرت قراءة الملف. تأكد من أنه ملف JSON',
+  'import.unsupportedFormat': 'هذا ليس ملف محادثة مصدّرة',
+  'import.unsupportedVersion': 'تم تصدير هذا الملف بإصدار أحدث ولا يمكن استيراده',
+  'import.invalidMessages': 'الرسائل في هذا الملف غير صالحة',
+  'import.unsupportedMode': 'طريقة استيراد غير معروفة: {mode} (استخدم merge أو replace)',
+  'import.done': {
+    zero: 'لم يتم استيراد أي رسالة',
+    one: 'تم استيراد رسالة واحدة',
+    two: 'تم استيراد رسالتين',
+    few: 'تم استيراد {count} رسائل',
+    many: 'تم استيراد {count} رسالة',
+    other: 'تم استيراد {count} رسالة',
+  },
+  'reactions.quick': 'تفاعلات سريعة',
+  'reactions.more': 'المزيد من الرموز التعبيرية',
+  'reactions.add': 'إضافة تفاعل',
+  'reactions.count': {
+    zero: '{emoji} لا تفاعلات',
+    one: '{emoji} تفاعل واحد',
+    two: '{emoji} تفاعلان',
+    few: '{emoji} {count} تفاعلات',
+    many: '{emoji} {count} تفاعلًا',
+    other: '{emoji} {count} تفاعل',
+  },
+  'reactions.failed': 'تعذر إرسال التفاعل',
+
+  'branches.label': 'النسخ',
+  'branches.previous': 'النسخة السابقة',
+  'branches.next': 'النسخة التالية',
+  'branches.position': '{index}/{count}',
+
+  'linkPreview.hide': 'إخفاء المعاينة',
+  'linkPreview.show': 'إظهار المعاينة',
+
+  'emoji.picker': 'اختر رمزًا تعبيريًا',
+  'emoji.search': 'البحث عن رمز تعبيري',
+  'emoji.noResults': 'لا توجد رموز تعبيرية مطابقة',
+
+  'audio.play': 'تشغيل',
+  'audio.pause': 'إيقاف مؤقت',
+  'audio.seek': 'موضع التشغيل',
+  'audio.speed': 'سرعة التشغيل {rate}x',
+
+  'message.actions': 'إجراءات الرسالة',
+  'message.reply': 'رد',
+  'message.edit': 'تعديل',
+  'message.edited': '(معدّلة)',
+  'message.editHistory': 'سجل التعديلات',
+  'message.copied': 'تم النسخ إلى الحافظة',
+  'message.copyFailed': 'تعذّر النسخ',
+  'message.deleted': 'تم حذف الرسالة',
+  'message.sendFailed': 'فشل الإرسال',
+  'message.retry': 'إعادة المحاولة',
+  'message.regenerate': 'إعادة التوليد',
+  'message.deletedOriginal': 'تم حذف هذه الرسالة',
+  'message.original': 'الرسالة الأصلية',
+  'message.jumpToOriginal': 'الانتقال إلى الرسالة الأصلية',
+  'message.originalNotFound': 'تعذّر العثور على الرسالة الأصلية',
+  'message.status.sending': 'جارٍ الإرسال',
+  'message.status.sent': 'أُرسلت',
+  'message.status.delivered': 'وصلت',
+  'message.status.read': 'قُرئت',
+
+  'code.copy': 'نسخ الشيفرة',
+
+  'toolbar.moreOptions': 'خيارات إضافية',
+  'toolbar.settings': 'الإعدادات',
+  'toolbar.references': 'مراجع:',
+  'toolbar.link': 'رابط {index}',
+};
@@ -0,0 +1,159 @@
+import type { Catalog } from '../catalog';
+
+export const en: Catalog = {
+  'common.cancel': 'Cancel',
+  'common.delete': 'Delete',
+  'common.undo': 'Undo',
+  'common.copy': 'Copy',
+  'common.copied': 'Copied',
+  'common.close': 'Close',
+  'common.download': 'Download',
+
+  'sender.user': 'You',
+  'sender.assistant': 'Assistant',
+
+  'settings.language': 'Language',
+  'settings.languageAuto': 'Automatic (browser)',
+
+  'conversations.title': 'Conversations',
+  'conversations.new': 'New conversation',
+  'conversations.empty': 'No conversations yet',
+  'conversations.defaultTitle': 'Chat',
+  'conversations.newTitle': 'New chat',
+  'conversations.noMessages': 'No messages',
+  'conversations.draft': '[Draft]',
+  'conversations.deleteConfirm': "Delete the conversation '{title}'?",
+  'conversations.import': 'Import conversation',
+  'conversations.rename': 'Rename conversation',
+  'conversations.delete': 'Delete conversation',
+  'conversations.titleInput': 'Conversation title',
+  'conversations.unread': { one: '{count} unread message', other: '{count} unread messages' },
+
+  'chat.back': 'Back to conversations',
+  'chat.offline': 'You are offline. Messages will be sent when you reconnect.',
+  'chat.start': 'This is the beginning of the conversation',
+  'chat.typing': 'Typing…',
+  'chat.scrollToBottom': 'Scroll to bottom',
+  'chat.unreadDivider': 'Unread messages',
+  'chat.jumpToUnread': 'Jump to unread',
+  'chat.newMessages': { one: '{count} new message', other: '{count} new messages' },
+
+  'search.open': 'Search messages',
+  'search.placeholder': 'Search this conversation',
+  'search.searching': 'Searching...',
+  'search.noResults': 'No results',
+  'search.position': '{current} of {total}',
+  'search.previous': 'Previous match',
+  'search.next': 'Next match',
+  'search.close': 'Close search',
+
+  'composer.placeholder': 'Type a message...',
+  'composer.moreOptions': 'More options',
+  'composer.send': 'Send message',
+  'composer.stop': 'Stop generating',
+  'composer.editing': 'Edit message',
+  'composer.editingBranch': 'Edit as a new branch',
+  'composer.replyingTo': 'Replying to {name}',
+  'composer.cancelEdit': 'Cancel editing',
+  'composer.cancelReply': 'Cancel reply',
+  'composer.record': 'Hold to record a voice message',
+  'composer.slideToCancel': '‹ Slide to cancel',
+  'composer.recordTooShort': 'Recording too short. Hold the button to record',
+  'composer.micUnavailable': 'Microphone is not available',
+
+  'composerActions.camera': 'Camera',
+  'composerActions.gallery': 'Gallery',
+  'composerActions.file': 'File',
+  'composerActions.location': 'Location',
+  'composerActions.contact': 'Contact',
+  'composerActions.calendar': 'Calendar',
+  'composerActions.failed': 'Could not complete the action',
+  'composerActions.location.denied': 'Location access is blocked. Allow it in your browser settings',
+  'composerActions.location.failed': 'Could not get your current location',
+  'composerActions.calendar.eventTitle': 'New event',
+
+  'attachments.remove': 'Remove {name}',
+  'attachments.view': 'View {name}',
+  'attachments.tooLarge': '{name}: files larger than {size} cannot be attached',
+  'attachments.unsupportedType': '{name}: unsupported file type',
+  'attachments.tooMany': {
+    one: 'You can attach up to {count} file',
+    other: 'You can attach up to {count} files',
+  },
+  'attachments.readFailed': 'Could not read the file',
+  'attachments.closeViewer': 'Close viewer',
+
+  'preview.photo': 'Photo',
+  'preview.file': 'File',
+  'preview.voice': 'Voice message',
+
+  'commands.list': 'Commands',
+  'commands.unknown': 'Unknown command: /{name}',
+  'commands.missingArgument': 'Usage: {usage}',
+  'commands.failed': 'Could not run the command',
+  'commands.clear.description': 'Clear the conversation from the screen',
+  'commands.clear.done': 'Conversation cleared',
+  'commands.search.description': 'Search messages in this conversation',
+  'commands.search.query': 'query',
+  'commands.retry.description': 'Resend failed messages or regenerate the last reply',
+  'commands.retry.nothing': 'Nothing to retry',
+  'commands.export.description': 'Export the conversation (json, markdown, text)',
+  'commands.import.description': 'Import an exported JSON conversation here (merge or replace)',
+
+  'export.unsupportedFormat': 'Unsupported format: {format} (choose {formats})',
+  'import.invalidJson': 'Could not read the file. Make sure it is a JSON file',
+  'import.unsupportedFormat': 'This is not an exported conversation file',
+  'import.unsupportedVersion': 'This file was exported by a newer version and cannot be imported',
+  'import.invalidMessages': 'The messages in this file are not valid',
+  'import.unsupportedMode': 'Unknown import mode: {mode} (use merge or replace)',
+  'import.done': { one: 'Imported {count} message', other: 'Imported {count} messages' },
+  'reactions.quick': 'Quick reactions',
+  'reactions.more': 'More emoji',
+  'reactions.add': 'Add reaction',
+  'reactions.count': { one: '{emoji} {count} reaction', other: '{emoji} {count} reactions' },
+  'reactions.failed': 'Could not send the reaction',
+
+  'branches.label': 'Versions',
+  'branches.previous': 'Previous version',
+  'branches.next': 'Next version',
+  'branches.position': '{index}/{count}',
+
+  'linkPreview.hide': 'Hide preview',
+  'linkPreview.show': 'Show preview',
+
+  'emoji.picker': 'Choose an emoji',
+  'emoji.search': 'Search emoji',
+  'emoji.noResults': 'No matching emoji',
+
+  'audio.play': 'Play',
+  'audio.pause': 'Pause',
+  'audio.seek': 'Playback position',
+  'audio.speed': 'Playback speed {rate}x',
+
+  'message.actions': 'Message actions',
+  'message.reply': 'Reply',
+  'message.edit': 'Edit',
+  'message.edited': '(edited)',
+  'message.editHistory': 'Edit history',
+  'message.copied': 'Copied to clipboard',
+  'message.copyFailed': 'Could not copy',
+  'message.deleted': 'Message deleted',
+  'message.sendFailed': 'Failed to send',
+  'message.retry': 'Retry',
+  'message.regenerate': 'Regenerate',
+  'message.deletedOriginal': 'This message was deleted',
+  'message.original': 'Original message',
+  'message.jumpToOriginal': 'Jump to original message',
+  'message.originalNotFound': 'Could not find the original message',
+  'message.status.sending': 'Sending',
+  'message.status.sent': 'Sent',
+  'message.status.delivered': 'Delivered',
+  'message.status.read': 'Read',
+
+  'code.copy': 'Copy code',
+
+  'toolbar.moreOptions': 'More options',
+  'toolbar.settings': 'Settings',
+  'toolbar.references': 'References:',
+  'toolbar.link': 'Link {index}',
+};
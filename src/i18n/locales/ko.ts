@@ -0,0 +1,160 @@
+import type { MessageValue } from '../catalog';
+
+/**
+ * 기본(한국어) 메시지 카탈로그
+ * 키 목록의 기준이므로 새 문구는 여기에 먼저 추가하고 다른 언어에도 같은 키를 채운다
+ */
+export const ko = {
+  'common.cancel': '취소',
+  'common.delete': '삭제',
+  'common.undo': '실행 취소',
+  'common.copy': '복사',
+  'common.copied': '복사됨',
+  'common.close': '닫기',
+  'common.download': '다운로드',
+
+  'sender.user': '나',
+  'sender.assistant': '어시스턴트',
+
+  'settings.language': '언어',
+  'settings.languageAuto': '자동 (브라우저 설정)',
+
+  'conversations.title': '대화',
+  'conversations.new': '새 대화',
+  'conversations.empty': '대화가 없습니다',
+  'conversations.defaultTitle': '채팅',
+  'conversations.newTitle': '새 대화',
+  'conversations.noMessages': '메시지가 없습니다',
+  'conversations.draft': '[임시 저장]',
+  'conversations.deleteConfirm': "'{title}' 대화를 삭제할까요?",
+  'conversations.import': '대화 가져오기',
+  'conversations.rename': '대화 이름 변경',
+  'conversations.delete': '대화 삭제',
+  'conversations.titleInput': '대화 이름',
+  'conversations.unread': { other: '안 읽은 메시지 {count}개' },
+
+  'chat.back': '대화 목록으로',
+  'chat.offline': '오프라인 상태입니다. 연결되면 메시지를 전송합니다.',
+  'chat.start': '대화의 시작입니다',
+  'chat.typing': '입력 중입니다',
+  'chat.scrollToBottom': '맨 아래로 이동',
+  'chat.unreadDivider': '여기까지 읽었습니다',
+  'chat.jumpToUnread': '안 읽은 메시지로 이동',
+  'chat.newMessages': { other: '새 메시지 {count}개' },
+
+  'search.open': '메시지 검색',
+  'search.placeholder': '대화 내용 검색 (초성 가능)',
+  'search.searching': '검색 중...',
+  'search.noResults': '결과 없음',
+  'search.position': '{current}/{total}',
+  'search.previous': '이전 결과',
+  'search.next': '다음 결과',
+  'search.close': '검색 닫기',
+
+  'composer.placeholder': '메시지를 입력하세요...',
+  'composer.moreOptions': '더보기',
+  'composer.send': '메시지 보내기',
+  'composer.stop': '응답 생성 중지',
+  'composer.editing': '메시지 수정',
+  'composer.editingBranch': '수정해서 새 갈래로 보내기',
+  'composer.replyingTo': '{name}에게 답장',
+  'composer.cancelEdit': '수정 취소',
+  'composer.cancelReply': '답장 취소',
+  'composer.record': '누르고 있는 동안 음성 녹음',
+  'composer.slideToCancel': '‹ 밀어서 취소',
+  'composer.recordTooShort': '녹음이 너무 짧습니다. 버튼을 누르고 있는 동안 녹음됩니다',
+  'composer.micUnavailable': '마이크를 사용할 수 없습니다',
+
+  'composerActions.camera': '카메라',
+  'composerActions.gallery': '갤러리',
+  'composerActions.file': '파일',
+  'composerActions.location': '위치',
+  'composerActions.contact': '연락처',
+  'composerActions.calendar': '일정',
+  'composerActions.failed': '작업을 실행하지 못했습니다',
+  'composerActions.location.denied': '위치 권한이 없습니다. 브라우저 설정에서 허용하세요',
+  'composerActions.location.failed': '현재 위치를 가져오지 못했습니다',
+  'composerActions.calendar.eventTitle': '새 일정',
+
+  'attachments.remove': '{name} 삭제',
+  'attachments.view': '{name} 보기',
+  'attachments.tooLarge': '{name}: {size}를 초과하는 파일은 첨부할 수 없습니다',
+  'attachments.unsupportedType': '{name}: 지원하지 않는 파일 형식입니다',
+  'attachments.tooMany': { other: '첨부 파일은 최대 {count}개까지 보낼 수 있습니다' },
+  'attachments.readFailed': '파일을 읽지 못했습니다',
+  'attachments.closeViewer': '뷰어 닫기',
+
+  'preview.photo': '사진',
+  'preview.file': '파일',
+  'preview.voice': '음성 메시지',
+
+  'commands.list': '명령어',
+  'commands.unknown': '알 수 없는 명령입니다: /{name}',
+  'commands.missingArgument': '사용법: {usage}',
+  'commands.failed': '명령을 실행하지 못했습니다',
+  'commands.clear.description': '화면의 대화 내용 지우기',
+  'commands.clear.done': '대화 내용을 지웠습니다',
+  'commands.search.description': '대화에서 메시지 검색',
+  'commands.search.query': '검색어',
+  'commands.retry.description': '실패한 메시지를 다시 보내거나 마지막 응답 다시 받기',
+  'commands.retry.nothing': '다시 보낼 메시지가 없습니다',
+  'commands.export.description': '대화 내보내기 (json, markdown, text)',
+  'commands.import.description': 'JSON으로 내보낸 대화를 이 대화로 가져오기 (merge: 합치기, replace: 바꾸기)',
+
+  'export.unsupportedFormat': '지원하지 않는 형식입니다: {format} ({formats} 중에서 선택)',
+  'import.invalidJson': '파일을 읽을 수 없습니다. JSON 파일인지 확인하세요',
+  'import.unsupportedFormat': '내보낸 대화 파일이 아닙니다',
+  'import.unsupportedVersion': '더 새로운 버전에서 내보낸 파일이라 가져올 수 없습니다',
+  'import.invalidMessages': '파일의 메시지 형식이 올바르지 않습니다',
+  'import.unsupportedMode': '알 수 없는 가져오기 방식입니다: {mode} (merge 또는 replace)',
+  'import.done': { other: '메시지 {count}개를 가져왔습니다' },
+  'reactions.quick': '빠른 반응',
+  'reactions.more': '다른 이모지',
+  'reactions.add': '반응 추가',
+  'reactions.count': { other: '{emoji} 반응 {count}개' },
+  'reactions.failed': '반응을 보내지 못했습니다',
+
+  'branches.label': '버전',
+  'branches.previous': '이전 버전',
+  'branches.next': '다음 버전',
+  'branches.position': '{index}/{count}',
+
+  'linkPreview.hide': '미리보기 숨기기',
+  'linkPreview.show': '미리보기 표시',
+
+  'emoji.picker': '이모지 선택',
+  'emoji.search': '이모지 검색',
+  'emoji.noResults': '일치하는 이모지가 없습니다',
+
+  'audio.play': '재생',
+  'audio.pause': '일시정지',
+  'audio.seek': '재생 위치',
+  'audio.speed': '재생 속도 {rate}배',
+
+  'message.actions': '메시지 메뉴',
+  'message.reply': '답장',
+  'message.edit': '수정',
+  'message.edited': '(수정됨)',
+  'message.editHistory': '수정 이력',
+  'message.copied': '복사되었습니다',
+  'message.copyFailed': '복사하지 못했습니다',
+  'message.deleted': '메시지를 삭제했습니다',
+  'message.sendFailed': '전송 실패',
+  'message.retry': '다시 보내기',
+  'message.regenerate': '다시 생성',
+  'message.deletedOriginal': '삭제된 메시지입니다',
+  'message.original': '원본 메시지',
+  'message.jumpToOriginal': '원본 메시지로 이동',
+  'message.originalNotFound': '원본 메시지를 찾을 수 없습니다',
+  'message.status.sending': '전송 중',
+  'message.status.sent': '전송됨',
+  'message.status.delivered': '전달됨',
+  'message.status.read': '읽음',
+
+  'code.copy': '코드 복사',
+
+  'toolbar.moreOptions': '더보기',
+  'toolbar.settings': '설정',
+  'toolbar.references': '참고:',
+  'toolbar.link': '링크 {index}',
+} satisfies Record<string, MessageValue>;
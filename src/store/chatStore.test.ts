@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// 스토어가 만들어질 때 브라우저 언어로 기본 대화 제목을 정한다 (Node 20에는 navigator가 없음)
+vi.hoisted(() => {
+  if (typeof navigator === 'undefined') vi.stubGlobal('navigator', { languages: ['ko'], onLine: true });
+});
+
+import { DEFAULT_CONVERSATION_ID, useChatStore } from './chatStore';
+import { buildMessageTree } from '../utils/messageTree';
+import type { Message } from '../types/chat';
+
+const conversationId = DEFAULT_CONVERSATION_ID;
+
+const createMessage = (id: string, sender: Message['sender'], seconds: number): Message => ({
+  id,
+  content: id,
+  sender,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)),
+});
+
+const getTree = () => {
+  const { messages, branches } = useChatStore.getState();
+  return buildMessageTree(messages[conversationId] ?? [], branches[conversationId]);
+};
+
+const threadIds = () => getTree().thread.map((message) => message.id);
+
+describe('chatStore interleaved sends', () => {
+  beforeEach(() => {
+    useChatStore.getState().setMessages(conversationId, []);
+  });
+
+  it('keeps each reply after its own message when the next message is sent before the reply starts', () => {
+    const { addMessage } = useChatStore.getState();
+
+    addMessage(conversationId, createMessage('a', 'user', 0));
+    addMessage(conversationId, createMessage('b', 'user', 1));
+    addMessage(conversationId, createMessage('reply-a', 'assistant', 2), 'a');
+
+    expect(threadIds()).toEqual(['a', 'reply-a', 'b']);
+    expect(getTree().variants.size).toBe(0);
+
+    addMessage(conversationId, createMessage('reply-b', 'assistant', 3), 'b');
+
+    expect(threadIds()).toEqual(['a', 'reply-a', 'b', 'reply-b']);
+    expect(getTree().variants.size).toBe(0);
+  });
+
+  it('keeps the order when the later reply starts first', () => {
+    const { addMessage } = useChatStore.getState();
+
+    addMessage(conversationId, createMessage('a', 'user', 0));
+    addMessage(conversationId, createMessage('b', 'user', 1));
+    addMessage(conversationId, createMessage('reply-b', 'assistant', 2), 'b');
+    addMessage(conversationId, createMessage('reply-a', 'assistant', 3), 'a');
+
+    expect(threadIds()).toEqual(['a', 'reply-a', 'b', 'reply-b']);
+    expect(getTree().variants.size).toBe(0);
+  });
+});
@@ -1,54 +1,567 @@
 import { create } from 'zustand';
-import type { Message } from '../types/chat';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { Attachment, Conversation, DeliveryStatus, Message } from '../types/chat';
+import { indexedDBStorage } from '../utils/indexedDBStorage';
+import { getMessagePreview } from '../utils/messagePreview';
+import { createId } from '../utils/id';
+import {
+  getThread,
+  insertAfter,
+  linkMessages,
+  removeFromTree,
+  renameInSelection,
+  reparentRoots,
+  selectPathTo,
+  spliceIntoThread,
+  type BranchSelection,
+  type TreeUpdate,
+} from '../utils/messageTree';
+import { translate, type MessageKey, type MessageParams } from '../i18n/catalog';
+import { getCurrentLocale } from './localeStore';
+import { STORE_VERSION, migratePersistedState, reviveDates } from './migrations';
+
+export const DEFAULT_CONVERSATION_ID = 'default';
+
+/** 입력창이 답장 또는 수정 중인 메시지 */
+export interface ComposerTarget {
+  mode: 'reply' | 'edit';
+  messageId: string;
+}
+
+/** 대화별로 저장되는 작성 중인 메시지 */
+export interface Draft {
+  content: string;
+  /** 답장 중이던 메시지 */
+  replyToId?: string;
+  attachments?: Attachment[];
+}
+
+const isEmptyDraft = (draft: Draft) =>
+  !draft.content && !draft.replyToId && !draft.attachments?.length;
 
 interface ChatStore {
-  messages: Message[];
+  conversations: Record<string, Conversation>;
+  /**
+   * 대화 id별 메시지 목록 (모든 갈래, 시각순). 아직 불러오지 않은 대화는 키가 없음
+   * 메시지들은 parentId로 트리를 이루고, 화면에는 branches를 따라간 스레드만 보인다
+   */
+  messages: Record<string, Message[]>;
+  /** 대화 id별로 보고 있는 갈래 */
+  branches: Record<string, BranchSelection>;
+  hasMore: Record<string, boolean>;
+  /** 대화 id별 작성 중인 메시지 */
+  drafts: Record<string, Draft>;
+  /** 어시스턴트 응답을 스트리밍 중인 대화 */
+  streaming: Record<string, boolean>;
+  /** 대화 id별 답장/수정 대상 */
+  composerTargets: Record<string, ComposerTarget>;
+  /** 대화 id → 참여자 id → 그 참여자가 읽은 마지막 메시지 id */
+  readMarkers: Record<string, Record<string, string>>;
+  /** 대화 id별로 내가 화면에서 본 가장 최근 메시지의 시각 (epoch ms) */
+  lastSeenAt: Record<string, number>;
+  activeConversationId: string | null;
   isLoading: boolean;
-  hasMore: boolean;
   error: string | null;
-  
-  addMessage: (message: Message) => void;
-  updateMessage: (id: string, updates: Partial<Message>) => void;
-  deleteMessage: (id: string) => void;
-  setMessages: (messages: Message[]) => void;
-  prependMessages: (messages: Message[]) => void;
+
+  createConversation: (title?: string) => string;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  setActiveConversation: (id: string | null) => void;
+  /** 비어 있거나 null이면 초안을 지운다 */
+  setDraft: (conversationId: string, draft: Draft | null) => void;
+  setStreaming: (conversationId: string, isStreaming: boolean) => void;
+  setComposerTarget: (conversationId: string, target: ComposerTarget | null) => void;
+
+  /**
+   * 시각 순서에 맞는 위치에 추가. 같은 id가 이미 있으면 무시
+   * parentId가 없으면 보고 있는 스레드에 잇고, 있으면 그 메시지 아래 새 갈래로 둔다
+   * afterId를 주면 그 메시지 바로 뒤에 잇는다 (그 사이 이어진 메시지는 새 메시지 뒤로)
+   */
+  addMessage: (conversationId: string, message: Message, afterId?: string) => void;
+  updateMessage: (conversationId: string, id: string, updates: Partial<Message>) => void;
+  appendMessageContent: (conversationId: string, id: string, chunk: string) => void;
+  /** 내용을 바꾸고 이전 내용을 수정 이력에 남긴다 */
+  editMessage: (conversationId: string, id: string, content: string) => void;
+  deleteMessage: (conversationId: string, id: string) => void;
+  /** 삭제를 취소할 때 원래 위치에 다시 넣는다 */
+  restoreMessage: (conversationId: string, message: Message, index: number) => void;
+  /** 이 메시지가 보이도록 갈래를 바꾼다 */
+  selectBranch: (conversationId: string, messageId: string) => void;
+  /** 서버가 수락한 메시지의 id를 클라이언트 id에서 서버 id로 바꾼다 */
+  confirmMessage: (conversationId: string, clientId: string, accepted: Message) => void;
+  /** 서버 수신 확인. 이미 더 진행된 상태면 무시 */
+  advanceDeliveryStatus: (conversationId: string, id: string, status: DeliveryStatus) => void;
+  /** 참여자가 messageId까지 읽었음을 기록하고 그 이전에 보낸 메시지를 읽음으로 표시 */
+  markReadUpTo: (conversationId: string, participantId: string, messageId: string) => void;
+  /** 반응 추가/취소. 이미 반영된 상태면 무시 (서버가 되돌려 준 내 반응 등) */
+  addReaction: (conversationId: string, messageId: string, emoji: string, participantId: string) => void;
+  removeReaction: (conversationId: string, messageId: string, emoji: string, participantId: string) => void;
+  /** timestamp 시각까지의 메시지를 본 것으로 기록. 더 이른 시각이면 무시 */
+  markSeen: (conversationId: string, timestamp: number) => void;
+  /** 연결되지 않은 메시지는 순서대로 잇는다 */
+  setMessages: (conversationId: string, messages: Message[]) => void;
+  /**
+   * 내보냈던 메시지를 가져온다
+   * merge는 없는 메시지만 시각 순서대로 끼워 넣고, replace는 가져온 메시지로 바꾼다
+   */
+  importMessages: (conversationId: string, messages: Message[], mode: 'merge' | 'replace') => void;
+  /** 이전 기록을 앞에 붙이고 지금까지의 첫 메시지를 그 뒤로 잇는다 */
+  prependMessages: (conversationId: string, messages: Message[]) => void;
   setLoading: (isLoading: boolean) => void;
-  setHasMore: (hasMore: boolean) => void;
+  setHasMore: (conversationId: string, hasMore: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
 }
 
-export const useChatStore = create<ChatStore>((set) => ({
-  messages: [],
+/** 저장되는 기본 제목/미리보기는 만들어지는 시점의 언어로 남는다 */
+const t = (key: MessageKey, params?: MessageParams) => translate(getCurrentLocale(), key, params);
+
+const createDefaultConversation = (): Conversation => ({
+  id: DEFAULT_CONVERSATION_ID,
+  title: t('conversations.defaultTitle'),
+  updatedAt: new Date(),
+  unreadCount: 0,
+});
+
+const withoutKey = <T>(record: Record<string, T>, key: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([id]) => id !== key));
+
+/**
+ * 대화의 메시지 목록을 교체하면서 목록 화면용 정보(미리보기, 갱신 시각, 안 읽은 수)도 갱신
+ * 갈래 선택도 바뀌면 selection으로 함께 넘긴다. 삭제된 대화로 늦게 도착한 메시지는 무시
+ */
+const replaceMessages = (
+  state: ChatStore,
+  conversationId: string,
+  messages: Message[],
+  { receivedCount = 0, selection = state.branches[conversationId] }: { receivedCount?: number; selection?: BranchSelection } = {}
+): Partial<ChatStore> => {
+  const conversation = state.conversations[conversationId];
+  if (!conversation) return {};
+
+  // 미리보기는 보고 있는 갈래의 마지막 메시지
+  const thread = getThread(messages, selection);
+  const lastMessage = thread[thread.length - 1];
+  const isActive = state.activeConversationId === conversationId;
+
+  return {
+    messages: { ...state.messages, [conversationId]: messages },
+    branches: selection === state.branches[conversationId]
+      ? state.branches
+      : { ...state.branches, [conversationId]: selection ?? {} },
+    conversations: {
+      ...state.conversations,
+      [conversationId]: {
+        ...conversation,
+        lastMessage: lastMessage ? getMessagePreview(lastMessage, t) : undefined,
+        updatedAt: lastMessage ? new Date(lastMessage.timestamp) : conversation.updatedAt,
+        unreadCount: isActive ? 0 : conversation.unreadCount + receivedCount,
+      },
+    },
+  };
+};
+
+const DELIVERY_ORDER: DeliveryStatus[] = ['sending', 'sent', 'delivered', 'read'];
+
+/**
+ * 전송 상태를 앞으로만 진행시킨다
+ * 수신 확인이 늦게 또는 순서가 바뀌어 도착해도 read → delivered로 되돌아가지 않음
+ */
+const advanceStatus = (message: Message, status: DeliveryStatus): Message => {
+  const current = DELIVERY_ORDER.indexOf(message.status as DeliveryStatus);
+  return current >= 0 && current < DELIVERY_ORDER.indexOf(status) ? { ...message, status } : message;
+};
+
+/**
+ * 시각 순서를 유지하며 끼워 넣는다
+ * 늦게 도착한 메시지도 보낸 시각 자리에 들어가고, 같은 시각이면 나중에 온 것이 뒤로
+ */
+const insertByTimestamp = (messages: Message[], message: Message): Message[] => {
+  const time = new Date(message.timestamp).getTime();
+  let index = messages.length;
+  while (index > 0 && new Date(messages[index - 1].timestamp).getTime() > time) {
+    index--;
+  }
+  return [...messages.slice(0, index), message, ...messages.slice(index)];
+};
+
+/**
+ * 반응을 추가하거나 취소한 메시지. 바뀌는 것이 없으면 null
+ * 아무도 반응하지 않은 이모지는 지우고, 반응이 하나도 없으면 reactions를 없앤다
+ */
+const applyReaction = (message: Message, emoji: string, participantId: string, reacted: boolean): Message | null => {
+  const participants = message.reactions?.[emoji] ?? [];
+  if (participants.includes(participantId) === reacted) return null;
+
+  const nextParticipants = reacted
+    ? [...participants, participantId]
+    : participants.filter((id) => id !== participantId);
+  const reactions = nextParticipants.length > 0
+    ? { ...message.reactions, [emoji]: nextParticipants }
+    : withoutKey(message.reactions ?? {}, emoji);
+  return { ...message, reactions: Object.keys(reactions).length > 0 ? reactions : undefined };
+};
+
+const updateReaction = (
+  state: ChatStore,
+  conversationId: string,
+  messageId: string,
+  emoji: string,
+  participantId: string,
+  reacted: boolean
+): Partial<ChatStore> => {
+  const current = state.messages[conversationId];
+  const target = current?.find((msg) => msg.id === messageId);
+  const updated = target ? applyReaction(target, emoji, participantId, reacted) : null;
+  if (!updated) return {};
+
+  return {
+    messages: { ...state.messages, [conversationId]: current.map((msg) => (msg === target ? updated : msg)) },
+  };
+};
+
+/**
+ * 원본이 삭제되거나 복원될 때 그 메시지에 대한 답장들의 표시를 갱신
+ */
+const markReplies = (messages: Message[], originalId: string, deleted: boolean): Message[] =>
+  messages.map((msg) =>
+    msg.replyToId === originalId && Boolean(msg.replyToDeleted) !== deleted
+      ? { ...msg, replyToDeleted: deleted }
+      : msg
+  );
+
+/**
+ * 저장 대상만 추려낸다
+ * 중단된 스트리밍 응답은 완료된 것으로 저장
+ */
+const partializeState = (state: ChatStore) => ({
+  conversations: state.conversations,
+  messages: Object.fromEntries(
+    Object.entries(state.messages).map(([conversationId, messages]) => [
+      conversationId,
+      messages.map((msg) => (msg.status === 'streaming' ? { ...msg, status: 'delivered' as const } : msg)),
+    ])
+  ),
+  hasMore: state.hasMore,
+  branches: state.branches,
+  drafts: state.drafts,
+  readMarkers: state.readMarkers,
+  lastSeenAt: state.lastSeenAt,
+});
+
+export const useChatStore = create<ChatStore>()(persist((set) => ({
+  conversations: { [DEFAULT_CONVERSATION_ID]: createDefaultConversation() },
+  messages: {},
+  branches: {},
+  hasMore: {},
+  drafts: {},
+  streaming: {},
+  composerTargets: {},
+  readMarkers: {},
+  lastSeenAt: {},
+  activeConversationId: null,
   isLoading: false,
-  hasMore: true,
   error: null,
-  
-  addMessage: (message) =>
-    set((state) => ({ messages: [...state.messages, message] })),
-    
-  updateMessage: (id, updates) =>
+
+  createConversation: (title = t('conversations.newTitle')) => {
+    const id = createId();
     set((state) => ({
-      messages: state.messages.map((msg) =>
-        msg.id === id ? { ...msg, ...updates } : msg
-      ),
+      conversations: {
+        ...state.conversations,
+        [id]: { id, title, updatedAt: new Date(), unreadCount: 0 },
+      },
+      // 새 대화는 서버 히스토리가 없으므로 빈 목록으로 시작
+      messages: { ...state.messages, [id]: [] },
+      hasMore: { ...state.hasMore, [id]: false },
+    }));
+    return id;
+  },
+
+  renameConversation: (id, title) =>
+    set((state) => {
+      const conversation = state.conversations[id];
+      if (!conversation) return {};
+      return {
+        conversations: { ...state.conversations, [id]: { ...conversation, title } },
+      };
+    }),
+
+  deleteConversation: (id) =>
+    set((state) => ({
+      conversations: withoutKey(state.conversations, id),
+      messages: withoutKey(state.messages, id),
+      branches: withoutKey(state.branches, id),
+      hasMore: withoutKey(state.hasMore, id),
+      drafts: withoutKey(state.drafts, id),
+      composerTargets: withoutKey(state.composerTargets, id),
+      readMarkers: withoutKey(state.readMarkers, id),
+      lastSeenAt: withoutKey(state.lastSeenAt, id),
+      activeConversationId: state.activeConversationId === id ? null : state.activeConversationId,
     })),
-    
-  deleteMessage: (id) =>
+
+  setActiveConversation: (id) =>
+    set((state) => {
+      const conversation = id ? state.conversations[id] : undefined;
+      return {
+        activeConversationId: id,
+        conversations: conversation
+          ? { ...state.conversations, [conversation.id]: { ...conversation, unreadCount: 0 } }
+          : state.conversations,
+      };
+    }),
+
+  setDraft: (conversationId, draft) =>
     set((state) => ({
-      messages: state.messages.filter((msg) => msg.id !== id),
+      drafts: draft && !isEmptyDraft(draft)
+        ? { ...state.drafts, [conversationId]: draft }
+        : withoutKey(state.drafts, conversationId),
     })),
-    
-  setMessages: (messages) => set({ messages }),
-  
-  prependMessages: (messages) =>
-    set((state) => ({ messages: [...messages, ...state.messages] })),
-    
+
+  setStreaming: (conversationId, isStreaming) =>
+    set((state) => ({
+      streaming: isStreaming
+        ? { ...state.streaming, [conversationId]: true }
+        : withoutKey(state.streaming, conversationId),
+    })),
+
+  setComposerTarget: (conversationId, target) =>
+    set((state) => ({
+      composerTargets: target
+        ? { ...state.composerTargets, [conversationId]: target }
+        : withoutKey(state.composerTargets, conversationId),
+    })),
+
+  addMessage: (conversationId, message, afterId) =>
+    set((state) => {
+      const current = state.messages[conversationId] ?? [];
+      if (current.some((msg) => msg.id === message.id)) return {};
+      const receivedCount = message.sender === 'assistant' ? 1 : 0;
+      const inserted = insertByTimestamp(current, message);
+      if (message.parentId !== undefined) {
+        return replaceMessages(state, conversationId, inserted, { receivedCount });
+      }
+      const { messages, selection } = afterId
+        ? insertAfter(inserted, state.branches[conversationId], message.id, afterId)
+        : spliceIntoThread(inserted, state.branches[conversationId], message.id);
+      return replaceMessages(state, conversationId, messages, { receivedCount, selection });
+    }),
+
+  updateMessage: (conversationId, id, updates) =>
+    set((state) => {
+      const current = state.messages[conversationId] ?? [];
+      const messages = current.map((msg) =>
+        msg.id === id ? { ...msg, ...updates } : msg
+      );
+      return replaceMessages(state, conversationId, messages);
+    }),
+
+  appendMessageContent: (conversationId, id, chunk) =>
+    set((state) => {
+      if (!state.messages[conversationId]) return {};
+      return {
+        messages: {
+          ...state.messages,
+          [conversationId]: state.messages[conversationId].map((msg) =>
+            msg.id === id ? { ...msg, content: msg.content + chunk } : msg
+          ),
+        },
+      };
+    }),
+
+  editMessage: (conversationId, id, content) =>
+    set((state) => {
+      const editedAt = new Date();
+      const messages = (state.messages[conversationId] ?? []).map((msg) =>
+        msg.id === id && msg.content !== content
+          ? {
+              ...msg,
+              content,
+              editedAt,
+              editHistory: [...(msg.editHistory ?? []), { content: msg.content, editedAt }],
+            }
+          : msg
+      );
+      return replaceMessages(state, conversationId, messages);
+    }),
+
+  deleteMessage: (conversationId, id) =>
+    set((state) => {
+      const removed = removeFromTree(state.messages[conversationId] ?? [], state.branches[conversationId], id);
+      const messages = markReplies(removed.messages, id, true);
+      const target = state.composerTargets[conversationId];
+      return {
+        ...replaceMessages(state, conversationId, messages, { selection: removed.selection }),
+        // 답장/수정 중이던 메시지가 지워지면 입력창 상태도 해제
+        composerTargets: target?.messageId === id
+          ? withoutKey(state.composerTargets, conversationId)
+          : state.composerTargets,
+      };
+    }),
+
+  restoreMessage: (conversationId, message, index) =>
+    set((state) => {
+      const current = state.messages[conversationId];
+      if (!current || current.some((msg) => msg.id === message.id)) return {};
+      // 삭제할 때 아래로 옮겨진 메시지들을 다시 이 메시지 뒤로 잇는다
+      const { messages, selection } = spliceIntoThread(
+        [...current.slice(0, index), { ...message, parentId: undefined }, ...current.slice(index)],
+        state.branches[conversationId],
+        message.id
+      );
+      return replaceMessages(state, conversationId, markReplies(messages, message.id, false), { selection });
+    }),
+
+  selectBranch: (conversationId, messageId) =>
+    set((state) => {
+      const current = state.messages[conversationId];
+      if (!current?.some((msg) => msg.id === messageId)) return {};
+      const selection = selectPathTo(current, state.branches[conversationId], messageId);
+      return replaceMessages(state, conversationId, current, { selection });
+    }),
+
+  // 목록 위치가 바뀌지 않도록 보낸 시각은 그대로 두고, 이 메시지를 가리키던 참조도 새 id로 옮긴다
+  confirmMessage: (conversationId, clientId, accepted) =>
+    set((state) => {
+      const current = state.messages[conversationId];
+      if (!current?.some((msg) => msg.id === clientId)) return {};
+
+      const serverId = accepted.id;
+      const messages = current.map((msg) => {
+        if (msg.id === clientId) {
+          return advanceStatus({ ...msg, id: serverId, clientId }, 'sent');
+        }
+        if (msg.replyToId !== clientId && msg.parentId !== clientId) return msg;
+        return {
+          ...msg,
+          ...(msg.replyToId === clientId && { replyToId: serverId }),
+          ...(msg.parentId === clientId && { parentId: serverId }),
+        };
+      });
+      const composerTarget = state.composerTargets[conversationId];
+      const draft = state.drafts[conversationId];
+      const selection = state.branches[conversationId];
+      return {
+        messages: { ...state.messages, [conversationId]: messages },
+        branches: selection
+          ? { ...state.branches, [conversationId]: renameInSelection(selection, clientId, serverId) }
+          : state.branches,
+        composerTargets: composerTarget?.messageId === clientId
+          ? { ...state.composerTargets, [conversationId]: { ...composerTarget, messageId: serverId } }
+          : state.composerTargets,
+        drafts: draft?.replyToId === clientId
+          ? { ...state.drafts, [conversationId]: { ...draft, replyToId: serverId } }
+          : state.drafts,
+      };
+    }),
+
+  // 상태 표시만 바뀌므로 목록 화면용 정보는 건드리지 않는다
+  advanceDeliveryStatus: (conversationId, id, status) =>
+    set((state) => {
+      const current = state.messages[conversationId];
+      if (!current) return {};
+      return {
+        messages: {
+          ...state.messages,
+          [conversationId]: current.map((msg) => (msg.id === id ? advanceStatus(msg, status) : msg)),
+        },
+      };
+    }),
+
+  markReadUpTo: (conversationId, participantId, messageId) =>
+    set((state) => {
+      const current = state.messages[conversationId];
+      const readIndex = current?.findIndex((msg) => msg.id === messageId) ?? -1;
+      if (!current || readIndex < 0) return {};
+
+      // 더 뒤까지 읽었다는 표시가 이미 있으면 무시
+      const previousId = state.readMarkers[conversationId]?.[participantId];
+      const previousIndex = previousId ? current.findIndex((msg) => msg.id === previousId) : -1;
+      if (readIndex <= previousIndex) return {};
+
+      // 아직 서버에 도달하지 않은 메시지는 읽을 수 없으므로 sent 이상만 진행
+      const messages = current.map((msg, index) =>
+        index <= readIndex && msg.sender !== participantId && msg.status !== 'sending'
+          ? advanceStatus(msg, 'read')
+          : msg
+      );
+      return {
+        messages: { ...state.messages, [conversationId]: messages },
+        readMarkers: {
+          ...state.readMarkers,
+          [conversationId]: { ...state.readMarkers[conversationId], [participantId]: messageId },
+        },
+      };
+    }),
+
+  addReaction: (conversationId, messageId, emoji, participantId) =>
+    set((state) => updateReaction(state, conversationId, messageId, emoji, participantId, true)),
+
+  removeReaction: (conversationId, messageId, emoji, participantId) =>
+    set((state) => updateReaction(state, conversationId, messageId, emoji, participantId, false)),
+
+  markSeen: (conversationId, timestamp) =>
+    set((state) => {
+      if (!state.conversations[conversationId]) return {};
+      if (timestamp <= (state.lastSeenAt[conversationId] ?? 0)) return {};
+      return { lastSeenAt: { ...state.lastSeenAt, [conversationId]: timestamp } };
+    }),
+
+  setMessages: (conversationId, messages) =>
+    set((state) => replaceMessages(state, conversationId, linkMessages(messages))),
+
+  importMessages: (conversationId, imported, mode) =>
+    set((state) => {
+      if (mode === 'merge') {
+        const current = state.messages[conversationId] ?? [];
+        const existingIds = new Set(current.flatMap((msg) => (msg.clientId ? [msg.id, msg.clientId] : [msg.id])));
+        // 갈래 정보가 없는 메시지(서버 기록 등)는 보고 있는 스레드에 잇는다
+        const merged = imported
+          .filter((msg) => !existingIds.has(msg.id))
+          .reduce<TreeUpdate>(({ messages, selection }, message) => {
+            const inserted = insertByTimestamp(messages, message);
+            return message.parentId === undefined
+              ? spliceIntoThread(inserted, selection, message.id)
+              : { messages: inserted, selection };
+          }, { messages: current, selection: state.branches[conversationId] });
+        return replaceMessages(state, conversationId, merged.messages, { selection: merged.selection });
+      }
+
+      const messages = linkMessages(imported.reduce<Message[]>(insertByTimestamp, []));
+      return {
+        ...replaceMessages(state, conversationId, messages, { selection: {} }),
+        // 가져온 기록이 대화 전체이므로 서버에서 이전 기록을 더 불러오지 않는다
+        hasMore: { ...state.hasMore, [conversationId]: false },
+        composerTargets: withoutKey(state.composerTargets, conversationId),
+      };
+    }),
+
+  prependMessages: (conversationId, messages) =>
+    set((state) => {
+      const current = state.messages[conversationId];
+      if (!current) return {};
+      const older = linkMessages(messages);
+      const lastOlder = older[older.length - 1];
+      if (!lastOlder) return {};
+      const { messages: reparented, selection } = reparentRoots(current, state.branches[conversationId], lastOlder.id);
+      return {
+        messages: { ...state.messages, [conversationId]: [...older, ...reparented] },
+        branches: selection ? { ...state.branches, [conversationId]: selection } : state.branches,
+      };
+    }),
+
   setLoading: (isLoading) => set({ isLoading }),
-  
-  setHasMore: (hasMore) => set({ hasMore }),
-  
+
+  setHasMore: (conversationId, hasMore) =>
+    set((state) => ({ hasMore: { ...state.hasMore, [conversationId]: hasMore } })),
+
   setError: (error) => set({ error }),
-  
+
   clearError: () => set({ error: null }),
-}))
\ No newline at end of file
+}), {
+  name: 'chat-store',
+  version: STORE_VERSION,
+  storage: createJSONStorage(() => indexedDBStorage, { reviver: reviveDates }),
+  partialize: partializeState,
+  migrate: (persistedState, version) =>
+    migratePersistedState(persistedState, version) as unknown as ChatStore,
+}))
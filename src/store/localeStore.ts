@@ -0,0 +1,28 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { detectLocale, type Locale } from '../i18n/catalog';
+
+interface LocaleStore {
+  /** 사용자가 직접 고른 언어. null이면 브라우저 설정을 따른다 */
+  preferredLocale: Locale | null;
+
+  setPreferredLocale: (locale: Locale | null) => void;
+}
+
+/**
+ * 언어 설정. 화면이 그려지기 전에 필요하므로 동기식 localStorage에 저장
+ */
+export const useLocaleStore = create<LocaleStore>()(persist((set) => ({
+  preferredLocale: null,
+
+  setPreferredLocale: (preferredLocale) => set({ preferredLocale }),
+}), {
+  name: 'chat-locale',
+}));
+
+/**
+ * 현재 적용 중인 언어 (React 밖에서 문구가 필요할 때)
+ */
+export function getCurrentLocale(): Locale {
+  return useLocaleStore.getState().preferredLocale ?? detectLocale();
+}
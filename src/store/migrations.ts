@@ -0,0 +1,64 @@
+/**
+ * 영속화된 채팅 스토어의 스키마 버전 관리
+ *
+ * 저장 형식을 바꿀 때는 STORE_VERSION을 N으로 올리고,
+ * 버전 N-1에서 N으로 변환하는 함수를 migrations[N]에 추가한다 (이미 있는 변환은 고치지 않는다).
+ * 예) 버전 4로 올릴 때: migrations[4] = (state) => ({ ...state, newField: [] })
+ */
+export const STORE_VERSION = 3;
+
+type PersistedState = Record<string, unknown>;
+type Migration = (state: PersistedState) => PersistedState;
+
+const migrations: Record<number, Migration> = {
+  // 초안이 문자열에서 답장 대상·첨부를 포함한 객체로 바뀜
+  2: (state) => ({
+    ...state,
+    drafts: Object.fromEntries(
+      Object.entries((state.drafts ?? {}) as Record<string, unknown>).map(([conversationId, draft]) => [
+        conversationId,
+        typeof draft === 'string' ? { content: draft } : draft,
+      ])
+    ),
+  }),
+  // 메시지가 parentId로 이어진 트리가 됨. 기존 기록은 한 갈래로 잇는다
+  3: (state) => ({
+    ...state,
+    messages: Object.fromEntries(
+      Object.entries((state.messages ?? {}) as Record<string, PersistedState[]>).map(([conversationId, messages]) => [
+        conversationId,
+        messages.map((message, index) => ({ ...message, parentId: index > 0 ? messages[index - 1].id : null })),
+      ])
+    ),
+    branches: {},
+  }),
+};
+
+/**
+ * fromVersion 다음 버전부터 STORE_VERSION까지 순서대로 변환
+ */
+export function migratePersistedState(persistedState: unknown, fromVersion: number): PersistedState {
+  let state = (persistedState ?? {}) as PersistedState;
+
+  for (let version = fromVersion + 1; version <= STORE_VERSION; version++) {
+    const migration = migrations[version];
+    if (migration) {
+      state = migration(state);
+    }
+  }
+
+  return state;
+}
+
+/**
+ * JSON으로 저장된 날짜 문자열을 Date로 복원
+ */
+const DATE_KEYS = new Set(['timestamp', 'updatedAt', 'editedAt']);
+
+export function reviveDates(key: string, value: unknown): unknown {
+  if (DATE_KEYS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
@@ -0,0 +1,62 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { indexedDBStorage } from '../utils/indexedDBStorage';
+import type { Attachment } from '../types/chat';
+
+export interface OutboxItem {
+  /** 대응하는 로컬 메시지 id */
+  messageId: string;
+  conversationId: string;
+  content: string;
+  attachments?: Attachment[];
+  /** 실패한 전송 시도 횟수 */
+  attempts: number;
+  /** 다음 전송 시도 가능 시각 (epoch ms) */
+  nextAttemptAt: number;
+}
+
+interface OutboxStore {
+  items: OutboxItem[];
+
+  enqueue: (item: Pick<OutboxItem, 'messageId' | 'conversationId' | 'content' | 'attachments'>) => void;
+  updateItem: (messageId: string, updates: Partial<OutboxItem>) => void;
+  removeItem: (messageId: string) => void;
+  removeConversation: (conversationId: string) => void;
+}
+
+/**
+ * 아직 서버에 전달되지 않은 메시지 큐
+ * 오프라인이거나 전송에 실패한 메시지를 보관했다가 useOutboxProcessor가 재전송
+ */
+export const useOutboxStore = create<OutboxStore>()(persist((set) => ({
+  items: [],
+
+  enqueue: (item) =>
+    set((state) => ({
+      items: [
+        ...state.items.filter((queued) => queued.messageId !== item.messageId),
+        { ...item, attempts: 0, nextAttemptAt: Date.now() },
+      ],
+    })),
+
+  updateItem: (messageId, updates) =>
+    set((state) => ({
+      items: state.items.map((item) =>
+        item.messageId === messageId ? { ...item, ...updates } : item
+      ),
+    })),
+
+  removeItem: (messageId) =>
+    set((state) => ({
+      items: state.items.filter((item) => item.messageId !== messageId),
+    })),
+
+  removeConversation: (conversationId) =>
+    set((state) => ({
+      items: state.items.filter((item) => item.conversationId !== conversationId),
+    })),
+}), {
+  name: 'chat-outbox',
+  version: 1,
+  storage: createJSONStorage(() => indexedDBStorage),
+}))
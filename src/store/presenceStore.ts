@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+
+/** 갱신 알림이 없으면 이 시간 뒤 입력 중 표시를 지운다 (상대가 연결이 끊긴 경우 등) */
+export const TYPING_TTL_MS = 6000;
+
+interface PresenceStore {
+  /** 대화 id → 입력 중인 참여자 id → 표시가 만료되는 시각 (epoch ms) */
+  typing: Record<string, Record<string, number>>;
+
+  setTyping: (conversationId: string, participantId: string, isTyping: boolean) => void;
+}
+
+const withoutParticipant = (
+  typing: PresenceStore['typing'],
+  conversationId: string,
+  participantId: string
+): PresenceStore['typing'] => {
+  const participants = Object.fromEntries(
+    Object.entries(typing[conversationId] ?? {}).filter(([id]) => id !== participantId)
+  );
+  const rest = Object.fromEntries(Object.entries(typing).filter(([id]) => id !== conversationId));
+  return Object.keys(participants).length > 0 ? { ...rest, [conversationId]: participants } : rest;
+};
+
+/**
+ * 참여자 입력 중 상태 (저장하지 않음)
+ * 메시지 목록과 분리되어 있어 히스토리에 남지 않는다
+ */
+export const usePresenceStore = create<PresenceStore>((set, get) => ({
+  typing: {},
+
+  setTyping: (conversationId, participantId, isTyping) => {
+    if (!isTyping) {
+      if (get().typing[conversationId]?.[participantId] === undefined) return;
+      set((state) => ({ typing: withoutParticipant(state.typing, conversationId, participantId) }));
+      return;
+    }
+
+    const expiresAt = Date.now() + TYPING_TTL_MS;
+    set((state) => ({
+      typing: {
+        ...state.typing,
+        [conversationId]: { ...state.typing[conversationId], [participantId]: expiresAt },
+      },
+    }));
+    // 그 사이 다시 알림이 와서 만료 시각이 늘어났으면 유지
+    setTimeout(() => {
+      if (get().typing[conversationId]?.[participantId] === expiresAt) {
+        get().setTyping(conversationId, participantId, false);
+      }
+    }, TYPING_TTL_MS);
+  },
+}));
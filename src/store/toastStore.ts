@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Toast {
+  id: string;
+  message: string;
+  action?: ToastAction;
+}
+
+interface ToastStore {
+  toasts: Toast[];
+
+  /** 토스트를 띄우고 id를 반환. duration(ms)이 지나면 자동으로 닫힘 */
+  showToast: (toast: Omit<Toast, 'id'>, duration?: number) => string;
+  dismissToast: (id: string) => void;
+}
+
+const DEFAULT_TOAST_DURATION = 4000;
+
+export const useToastStore = create<ToastStore>((set, get) => ({
+  toasts: [],
+
+  showToast: (toast, duration = DEFAULT_TOAST_DURATION) => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    set((state) => ({ toasts: [...state.toasts, { ...toast, id }] }));
+    setTimeout(() => get().dismissToast(id), duration);
+    return id;
+  },
+
+  dismissToast: (id) =>
+    set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+}));
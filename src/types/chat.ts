@@ -1,10 +1,71 @@
+export type AttachmentKind = 'image' | 'audio' | 'file';
+
+export interface Attachment {
+  id: string;
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  /** 바이트 단위 */
+  size: number;
+  url: string;
+  /** 음성 메시지 길이 (초). 녹음한 오디오는 파일 메타데이터에 길이가 없는 경우가 있어 따로 저장 */
+  duration?: number;
+  /** 음성 메시지 파형 (0~1) */
+  waveform?: number[];
+}
+
+export interface MessageEdit {
+  /** 수정 전 내용 */
+  content: string;
+  editedAt: Date;
+}
+
+/** 답장 시점의 원본 메시지 요약 (원본이 아직 로드되지 않았을 때 표시) */
+export interface ReplyPreview {
+  sender: Message['sender'];
+  content: string;
+}
+
+/** 서버 수신 확인에 따라 앞으로만 진행하는 전송 상태 */
+export type DeliveryStatus = 'sending' | 'sent' | 'delivered' | 'read';
+
 export interface Message {
   id: string;
   content: string;
   sender: 'user' | 'assistant';
   timestamp: Date;
-  status?: 'sending' | 'sent' | 'delivered' | 'read' | 'error';
-  isTyping?: boolean;
+  status?: DeliveryStatus | 'error' | 'streaming';
+  /** 보낼 때 만든 로컬 id. 서버 id로 바뀐 뒤에도 목록 행 키로 계속 쓴다 */
+  clientId?: string;
+  /**
+   * 대화 트리에서 바로 앞 메시지 id (null이면 첫 메시지)
+   * 같은 부모 아래의 메시지들은 다시 생성한 응답이나 수정해서 나뉜 갈래다
+   * 서버에서 받아 아직 스토어에 연결되지 않은 메시지는 없음
+   */
+  parentId?: string | null;
+  attachments?: Attachment[];
+  /** 마지막으로 수정된 시각 */
+  editedAt?: Date;
+  /** 이전 내용들 (오래된 순) */
+  editHistory?: MessageEdit[];
+  /** 답장 대상 메시지 id */
+  replyToId?: string;
+  replyPreview?: ReplyPreview;
+  /** 답장 대상 원본이 삭제됨 */
+  replyToDeleted?: boolean;
+  /** 이모지 → 반응한 참여자 id (반응한 순서) */
+  reactions?: Record<string, string[]>;
+  /** 본문 속 주소의 미리보기 카드를 숨김 */
+  hideLinkPreview?: boolean;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  updatedAt: Date;
+  /** 목록에 표시할 마지막 메시지 미리보기 */
+  lastMessage?: string;
+  unreadCount: number;
 }
 
 export interface ChatState {
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ATTACHMENT_SIZE, validateAttachmentFile } from './attachments';
+
+const createFile = (name: string, type: string, size = 16) => new File([new Uint8Array(size)], name, { type });
+
+describe('validateAttachmentFile', () => {
+  it('accepts supported types', () => {
+    expect(validateAttachmentFile(createFile('photo.png', 'image/png'))).toBeNull();
+    expect(validateAttachmentFile(createFile('report.pdf', 'application/pdf'))).toBeNull();
+  });
+
+  it('accepts files the browser has no type for as generic files', () => {
+    expect(validateAttachmentFile(createFile('notes.md', ''))).toBeNull();
+    expect(validateAttachmentFile(createFile('data.csv', ''))).toBeNull();
+    expect(validateAttachmentFile(createFile('server.log', ''))).toBeNull();
+  });
+
+  it('rejects types that are not allowed', () => {
+    expect(validateAttachmentFile(createFile('clip.mp4', 'video/mp4'))).toBe('unsupportedType');
+  });
+
+  it('rejects files over the size limit', () => {
+    expect(validateAttachmentFile(createFile('notes.md', '', MAX_ATTACHMENT_SIZE + 1))).toBe('tooLarge');
+  });
+});
@@ -0,0 +1,95 @@
+import type { Attachment, AttachmentKind } from '../types/chat';
+import type { PickFilesOptions } from './filePicker';
+import { createId } from './id';
+import type { VoiceRecording } from './voiceRecorder';
+
+/** 첨부 파일 하나의 최대 크기 */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/** 메시지 하나에 첨부할 수 있는 최대 개수 */
+export const MAX_ATTACHMENTS = 10;
+
+const ALLOWED_FILE_TYPES = [
+  'image/',
+  'audio/',
+  'application/pdf',
+  'text/',
+  'application/zip',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+];
+
+export type AttachmentSource = 'camera' | 'gallery' | 'file';
+
+/** 첨부할 수 없는 사유 (문구는 화면에서 현재 언어로 만든다) */
+export type AttachmentValidationError = 'tooLarge' | 'unsupportedType';
+
+export const ATTACHMENT_PICKER_OPTIONS: Record<AttachmentSource, PickFilesOptions> = {
+  camera: { accept: 'image/*', capture: 'environment' },
+  gallery: { accept: 'image/*', multiple: true },
+  file: { multiple: true },
+};
+
+/** 브라우저가 형식을 모르는 파일(.md, .csv, .log 등은 type이 빈 문자열)은 일반 파일로 첨부한다 */
+const GENERIC_FILE_TYPE = 'application/octet-stream';
+
+/**
+ * 첨부할 수 없는 파일이면 사유를, 가능하면 null을 반환
+ */
+export function validateAttachmentFile(file: File): AttachmentValidationError | null {
+  if (file.size > MAX_ATTACHMENT_SIZE) return 'tooLarge';
+  if (file.type && !ALLOWED_FILE_TYPES.some((type) => file.type.startsWith(type))) return 'unsupportedType';
+  return null;
+}
+
+const getAttachmentKind = (mimeType: string): AttachmentKind => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'file';
+};
+
+/**
+ * 파일을 data URL로 읽어 첨부 파일로 변환
+ * object URL과 달리 새로고침 후에도 유효하고 IndexedDB에 그대로 저장된다
+ */
+export function createAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      resolve({
+        id: createId(),
+        kind: getAttachmentKind(file.type),
+        name: file.name,
+        mimeType: file.type || GENERIC_FILE_TYPE,
+        size: file.size,
+        url: reader.result as string,
+      });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * 녹음한 음성을 첨부 파일로 변환 (길이와 파형 포함)
+ */
+export async function createVoiceAttachment(recording: VoiceRecording): Promise<Attachment> {
+  const extension = recording.mimeType.includes('mp4') ? 'm4a' : recording.mimeType.includes('ogg') ? 'ogg' : 'webm';
+  const file = new File([recording.blob], `voice-${Date.now()}.${extension}`, { type: recording.mimeType });
+  const attachment = await createAttachment(file);
+  return { ...attachment, kind: 'audio', duration: recording.duration, waveform: recording.waveform };
+}
+
+/** 재생 시간 표시 (m:ss) */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
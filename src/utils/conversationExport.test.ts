@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { exportConversation, parseConversationExport, readConversationExport } from './conversationExport';
+import type { Conversation, Message } from '../types/chat';
+
+const conversation: Conversation = {
+  id: 'conversation-1',
+  title: '주간 회의',
+  updatedAt: new Date('2025-03-02T09:30:00.000Z'),
+  unreadCount: 0,
+};
+
+const messages: Message[] = [
+  {
+    id: 'm1',
+    content: '수정한 내용',
+    sender: 'user',
+    timestamp: new Date('2025-03-01T08:15:30.123Z'),
+    status: 'read',
+    parentId: null,
+    editedAt: new Date('2025-03-01T08:16:00.456Z'),
+    editHistory: [
+      { content: '처음 내용', editedAt: new Date('2025-03-01T08:15:45.789Z') },
+      { content: '두 번째 내용', editedAt: new Date('2025-03-01T08:15:50.001Z') },
+    ],
+    attachments: [
+      {
+        id: 'a1',
+        kind: 'audio',
+        name: 'voice.webm',
+        mimeType: 'audio/webm',
+        size: 2048,
+        url: 'data:audio/webm;base64,AAAA',
+        duration: 3.5,
+        waveform: [0.1, 0.5, 1],
+      },
+    ],
+  },
+  {
+    id: 'm2',
+    content: '보내는 중이던 메시지',
+    sender: 'user',
+    timestamp: new Date('2025-03-01T08:17:00.999Z'),
+    status: 'sending',
+    parentId: 'm1',
+  },
+];
+
+const roundTrip = async (source: Message[]) => {
+  const file = exportConversation(conversation, source, 'json', 'ko');
+  return readConversationExport(file);
+};
+
+describe('conversation JSON export', () => {
+  it('restores timestamps as equal Date values', async () => {
+    const { data, error } = await roundTrip(messages);
+    expect(error).toBeUndefined();
+
+    const [first, second] = data!.messages;
+    expect(first.timestamp).toBeInstanceOf(Date);
+    expect(first.timestamp.getTime()).toBe(messages[0].timestamp.getTime());
+    expect(first.editedAt).toEqual(messages[0].editedAt);
+    expect(first.editHistory?.map((edit) => edit.editedAt)).toEqual(
+      messages[0].editHistory?.map((edit) => edit.editedAt)
+    );
+    expect(first.editHistory?.every((edit) => edit.editedAt instanceof Date)).toBe(true);
+    expect(second.timestamp).toEqual(messages[1].timestamp);
+  });
+
+  it('marks messages that were still sending as failed', async () => {
+    const { data } = await roundTrip(messages);
+    expect(data!.messages.map((message) => message.status)).toEqual(['read', 'error']);
+  });
+
+  it('keeps attachment metadata', async () => {
+    const { data } = await roundTrip(messages);
+    expect(data!.messages[0].attachments).toEqual(messages[0].attachments);
+  });
+
+  it('keeps the conversation and tree links', async () => {
+    const { data } = await roundTrip(messages);
+    expect(data!.conversation).toEqual({ id: conversation.id, title: conversation.title });
+    expect(data!.messages.map((message) => message.parentId)).toEqual([null, 'm1']);
+  });
+});
+
+describe('conversation JSON import', () => {
+  const withAttachment = (attachment: Record<string, unknown>) => {
+    const file = exportConversation(conversation, [messages[0]], 'json', 'ko');
+    return file.text().then((text) => {
+      const data = JSON.parse(text);
+      data.messages[0].attachments = [{ ...data.messages[0].attachments[0], ...attachment }];
+      return parseConversationExport(JSON.stringify(data));
+    });
+  };
+
+  it('accepts data: and web attachment URLs', async () => {
+    expect((await withAttachment({ url: 'https://cdn.example.com/voice.webm' })).error).toBeUndefined();
+    expect((await withAttachment({ url: 'data:application/octet-stream;base64,AAAA' })).error).toBeUndefined();
+  });
+
+  it.each([
+    { url: 'javascript:alert(1)' },
+    { url: 'vbscript:msgbox' },
+    { url: 'file:///etc/passwd' },
+    { url: '/relative/path' },
+    { size: -1 },
+    { size: Number.NaN },
+    { name: '' },
+    { mimeType: '<script>' },
+    { kind: 'video' },
+  ])('rejects an attachment with %o', async (attachment) => {
+    expect((await withAttachment(attachment)).error).toBe('invalidMessages');
+  });
+
+  const withMessageFields = (fields: Record<string, unknown>) => {
+    const file = exportConversation(conversation, [messages[0]], 'json', 'ko');
+    return file.text().then((text) => {
+      const data = JSON.parse(text);
+      data.messages[0] = { ...data.messages[0], ...fields };
+      return parseConversationExport(JSON.stringify(data));
+    });
+  };
+
+  it('accepts reply and client id fields', async () => {
+    const { error } = await withMessageFields({
+      clientId: 'local-1',
+      replyToId: 'missing',
+      replyPreview: { sender: 'assistant', content: '원본' },
+      replyToDeleted: true,
+    });
+    expect(error).toBeUndefined();
+  });
+
+  it.each([
+    { replyPreview: { sender: 'assistant', content: { text: '원본' } } },
+    { replyPreview: { sender: 'system', content: '원본' } },
+    { replyPreview: '원본' },
+    { clientId: 42 },
+    { replyToDeleted: 'yes' },
+  ])('rejects a message with %o', async (fields) => {
+    expect((await withMessageFields(fields)).error).toBe('invalidMessages');
+  });
+});
@@ -0,0 +1,234 @@
+import type { Attachment, Conversation, Message, ReplyPreview } from '../types/chat';
+import { translate, type Locale } from '../i18n/catalog';
+import { formatDateTime } from '../i18n/format';
+import { reviveDates } from '../store/migrations';
+import { formatFileSize } from './attachments';
+import { toSafeWebUrl } from './linkify';
+import { getThread, type BranchSelection } from './messageTree';
+
+export type ExportFormat = 'json' | 'markdown' | 'text';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown', 'text'];
+
+/** JSON 내보내기 형식을 바꿀 때 올리고 parseConversationExport에서 이전 버전도 읽도록 한다 */
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+const EXPORT_FORMAT_ID = 'chat-ui/conversation';
+
+/**
+ * JSON으로 내보낸 대화
+ * 메시지는 스토어 형식 그대로라서 상태, 첨부 파일, 답장 관계, 갈래까지 다시 가져올 수 있다
+ */
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversation: Pick<Conversation, 'id' | 'title'>;
+  messages: Message[];
+}
+
+/** 가져올 수 없는 사유 (문구는 화면에서 현재 언어로 만든다) */
+export type ImportValidationError = 'invalidJson' | 'unsupportedFormat' | 'unsupportedVersion' | 'invalidMessages';
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { mimeType: string; extension: string }> = {
+  json: { mimeType: 'application/json', extension: 'json' },
+  markdown: { mimeType: 'text/markdown', extension: 'md' },
+  text: { mimeType: 'text/plain', extension: 'txt' },
+};
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as string[]).includes(value);
+}
+
+export function serializeConversationJson(conversation: Conversation, messages: Message[]): string {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT_ID,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: { id: conversation.id, title: conversation.title },
+    messages,
+  };
+  // Date는 toJSON으로 ISO 문자열(밀리초 포함)이 되어 가져올 때 같은 시각으로 복원된다
+  return JSON.stringify(data, null, 2);
+}
+
+const getSenderName = (message: Message, locale: Locale) =>
+  translate(locale, message.sender === 'user' ? 'sender.user' : 'sender.assistant');
+
+const describeAttachment = (attachment: Attachment) =>
+  `📎 ${attachment.name} (${formatFileSize(attachment.size)})`;
+
+/**
+ * 보낸 사람과 시각을 제목으로 하는 Markdown
+ * 메시지 본문은 이미 Markdown이므로 그대로 둔다
+ */
+export function serializeConversationMarkdown(conversation: Conversation, messages: Message[], locale: Locale): string {
+  const sections = messages.map((message) => {
+    const lines = [`### ${getSenderName(message, locale)} · ${formatDateTime(message.timestamp, locale)}`, ''];
+    if (message.replyPreview) {
+      const replySender = translate(locale, message.replyPreview.sender === 'user' ? 'sender.user' : 'sender.assistant');
+      lines.push(`> **${replySender}**: ${message.replyPreview.content.replace(/\n/g, ' ')}`, '');
+    }
+    if (message.content) {
+      lines.push(message.content, '');
+    }
+    message.attachments?.forEach((attachment) => lines.push(`- ${describeAttachment(attachment)}`));
+    if (message.attachments?.length) lines.push('');
+    if (message.editedAt) lines.push(`_${translate(locale, 'message.edited')}_`, '');
+    return lines.join('\n').trimEnd();
+  });
+
+  return [`# ${conversation.title}`, ...sections].join('\n\n---\n\n') + '\n';
+}
+
+export function serializeConversationText(conversation: Conversation, messages: Message[], locale: Locale): string {
+  const sections = messages.map((message) => {
+    const edited = message.editedAt ? ` ${translate(locale, 'message.edited')}` : '';
+    const lines = [`[${formatDateTime(message.timestamp, locale)}] ${getSenderName(message, locale)}${edited}`];
+    if (message.content) lines.push(message.content);
+    message.attachments?.forEach((attachment) => lines.push(describeAttachment(attachment)));
+    return lines.join('\n');
+  });
+
+  return [conversation.title, ...sections].join('\n\n') + '\n';
+}
+
+/**
+ * 대화를 내보낼 파일로 만든다
+ * JSON에는 모든 갈래를, 읽기용 형식에는 보고 있는 갈래만 담는다
+ */
+export function exportConversation(
+  conversation: Conversation,
+  messages: Message[],
+  format: ExportFormat,
+  locale: Locale,
+  branches?: BranchSelection
+): File {
+  const content =
+    format === 'json'
+      ? serializeConversationJson(conversation, messages)
+      : format === 'markdown'
+        ? serializeConversationMarkdown(conversation, getThread(messages, branches), locale)
+        : serializeConversationText(conversation, getThread(messages, branches), locale);
+  const { mimeType, extension } = EXPORT_FILE_TYPES[format];
+  // 파일 이름에 쓸 수 없는 문자는 바꾼다
+  const baseName = conversation.title.replace(/[\\/:*?"<>|]+/g, '_').trim() || conversation.id;
+  return new File([content], `${baseName}.${extension}`, { type: `${mimeType};charset=utf-8` });
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown): value is Date =>
+  value instanceof Date && !Number.isNaN(value.getTime());
+
+const MESSAGE_STATUSES = new Set(['sending', 'sent', 'delivered', 'read', 'error', 'streaming']);
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/** 빈 문자열은 브라우저가 형식을 모르는 파일 */
+const MIME_TYPE_PATTERN = /^(?:[\w.+-]+\/[\w.+-]+(?:\s*;.*)?)?$/;
+
+const DATA_URL_PATTERN = /^data:(?:[\w.+-]+\/[\w.+-]+)?[;,]/i;
+
+/**
+ * 첨부 주소는 <img src>, <audio src>, 다운로드 링크에 그대로 쓰이므로
+ * 가져온 파일에서는 data: URL과 웹 주소만 받는다 (javascript: 등은 거부)
+ */
+const isSafeAttachmentUrl = (url: string) => DATA_URL_PATTERN.test(url) || toSafeWebUrl(url) !== null;
+
+const isAttachment = (value: unknown): value is Attachment =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  (value.kind === 'image' || value.kind === 'audio' || value.kind === 'file') &&
+  typeof value.name === 'string' &&
+  value.name.trim().length > 0 &&
+  typeof value.mimeType === 'string' &&
+  MIME_TYPE_PATTERN.test(value.mimeType) &&
+  isNonNegativeNumber(value.size) &&
+  typeof value.url === 'string' &&
+  isSafeAttachmentUrl(value.url) &&
+  (value.duration === undefined || isNonNegativeNumber(value.duration)) &&
+  (value.waveform === undefined ||
+    (Array.isArray(value.waveform) && value.waveform.every((level) => typeof level === 'number')));
+
+const isReplyPreview = (value: unknown): value is ReplyPreview =>
+  isRecord(value) && (value.sender === 'user' || value.sender === 'assistant') && typeof value.content === 'string';
+
+const isMessage = (value: unknown): value is Message =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.content === 'string' &&
+  (value.sender === 'user' || value.sender === 'assistant') &&
+  isValidDate(value.timestamp) &&
+  (value.status === undefined || (typeof value.status === 'string' && MESSAGE_STATUSES.has(value.status))) &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isAttachment))) &&
+  (value.parentId === undefined || value.parentId === null || typeof value.parentId === 'string') &&
+  (value.clientId === undefined || typeof value.clientId === 'string') &&
+  (value.replyToId === undefined || typeof value.replyToId === 'string') &&
+  (value.replyPreview === undefined || isReplyPreview(value.replyPreview)) &&
+  (value.replyToDeleted === undefined || typeof value.replyToDeleted === 'boolean') &&
+  (value.editedAt === undefined || isValidDate(value.editedAt)) &&
+  (value.hideLinkPreview === undefined || typeof value.hideLinkPreview === 'boolean') &&
+  (value.reactions === undefined ||
+    (isRecord(value.reactions) &&
+      Object.values(value.reactions).every((ids) => Array.isArray(ids) && ids.every((id) => typeof id === 'string')))) &&
+  (value.editHistory === undefined ||
+    (Array.isArray(value.editHistory) &&
+      value.editHistory.every((edit) => isRecord(edit) && typeof edit.content === 'string' && isValidDate(edit.editedAt))));
+
+/**
+ * 내보낼 당시 끝나지 않은 전송/응답은 이어서 진행할 수 없으므로 정리한다
+ * 전송 중이던 메시지는 실패로 표시해 다시 보낼 수 있게 한다
+ */
+const settleMessage = (message: Message): Message => {
+  if (message.status === 'sending') return { ...message, status: 'error' };
+  if (message.status === 'streaming') return { ...message, status: 'delivered' };
+  return message;
+};
+
+/**
+ * JSON 내보내기 파일을 읽고 형식을 검사한다
+ */
+export function parseConversationExport(
+  text: string
+): { data: ConversationExport; error?: undefined } | { data?: undefined; error: ImportValidationError } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text, reviveDates);
+  } catch {
+    return { error: 'invalidJson' };
+  }
+
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT_ID || !isRecord(parsed.conversation)) {
+    return { error: 'unsupportedFormat' };
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > CONVERSATION_EXPORT_VERSION) {
+    return { error: 'unsupportedVersion' };
+  }
+  if (!Array.isArray(parsed.messages) || !parsed.messages.every(isMessage)) {
+    return { error: 'invalidMessages' };
+  }
+
+  const { conversation } = parsed;
+  return {
+    data: {
+      format: EXPORT_FORMAT_ID,
+      version: parsed.version,
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+      conversation: {
+        id: typeof conversation.id === 'string' ? conversation.id : '',
+        title: typeof conversation.title === 'string' ? conversation.title : '',
+      },
+      messages: parsed.messages.map(settleMessage),
+    },
+  };
+}
+
+/** 가져올 파일 선택 창에 쓰는 형식 */
+export const IMPORT_ACCEPT = 'application/json,.json';
+
+export async function readConversationExport(file: File): Promise<ReturnType<typeof parseConversationExport>> {
+  return parseConversationExport(await file.text());
+}
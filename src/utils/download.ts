@@ -0,0 +1,14 @@
+/**
+ * 파일을 내려받게 한다
+ * object URL은 클릭 직후 해제하면 일부 브라우저에서 다운로드가 취소되어 잠시 뒤에 해제
+ */
+export function downloadFile(file: File): void {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
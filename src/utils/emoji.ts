@@ -0,0 +1,100 @@
+export interface EmojiEntry {
+  emoji: string;
+  /** 검색어 (영어, 한국어) */
+  keywords: string[];
+}
+
+/** 길게 눌렀을 때 바로 고를 수 있는 반응 */
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export const EMOJI_LIST: EmojiEntry[] = [
+  { emoji: '👍', keywords: ['thumbs up', 'like', 'yes', 'ok', '좋아요', '최고'] },
+  { emoji: '👎', keywords: ['thumbs down', 'dislike', 'no', '싫어요', '별로'] },
+  { emoji: '❤️', keywords: ['heart', 'love', 'red', '하트', '사랑'] },
+  { emoji: '😂', keywords: ['joy', 'laugh', 'lol', 'tears', '웃음', '눈물'] },
+  { emoji: '🤣', keywords: ['rofl', 'laugh', 'rolling', '웃음', '폭소'] },
+  { emoji: '😀', keywords: ['grin', 'smile', 'happy', '웃음', '미소'] },
+  { emoji: '😊', keywords: ['blush', 'smile', 'happy', '미소', '행복'] },
+  { emoji: '😍', keywords: ['heart eyes', 'love', 'crush', '사랑', '반함'] },
+  { emoji: '🥰', keywords: ['smiling hearts', 'love', 'adore', '사랑'] },
+  { emoji: '😘', keywords: ['kiss', 'love', '뽀뽀', '키스'] },
+  { emoji: '😉', keywords: ['wink', '윙크'] },
+  { emoji: '😎', keywords: ['cool', 'sunglasses', '멋짐', '선글라스'] },
+  { emoji: '🤔', keywords: ['thinking', 'hmm', 'wonder', '생각', '고민'] },
+  { emoji: '🤨', keywords: ['raised eyebrow', 'skeptic', 'suspicious', '의심'] },
+  { emoji: '😐', keywords: ['neutral', 'meh', '무표정'] },
+  { emoji: '🙄', keywords: ['eye roll', 'whatever', '어이없음'] },
+  { emoji: '😏', keywords: ['smirk', '능글'] },
+  { emoji: '😴', keywords: ['sleep', 'tired', 'zzz', '잠', '졸림'] },
+  { emoji: '😮', keywords: ['wow', 'surprised', 'open mouth', '놀람', '와'] },
+  { emoji: '😱', keywords: ['scream', 'shock', 'fear', '충격', '비명'] },
+  { emoji: '😳', keywords: ['flushed', 'embarrassed', '당황'] },
+  { emoji: '🥺', keywords: ['pleading', 'puppy eyes', '부탁', '애원'] },
+  { emoji: '😢', keywords: ['cry', 'sad', 'tear', '슬픔', '눈물'] },
+  { emoji: '😭', keywords: ['sob', 'cry', 'sad', '오열', '슬픔'] },
+  { emoji: '😡', keywords: ['angry', 'mad', 'rage', '화남', '분노'] },
+  { emoji: '🤯', keywords: ['mind blown', 'exploding head', '충격', '대박'] },
+  { emoji: '🥳', keywords: ['party', 'celebrate', 'birthday', '파티', '축하'] },
+  { emoji: '🤗', keywords: ['hug', '포옹', '안아줘'] },
+  { emoji: '🤝', keywords: ['handshake', 'deal', 'agree', '악수', '협력'] },
+  { emoji: '🙏', keywords: ['pray', 'thanks', 'please', '감사', '부탁', '기도'] },
+  { emoji: '👏', keywords: ['clap', 'applause', 'bravo', '박수'] },
+  { emoji: '🙌', keywords: ['raised hands', 'hooray', 'celebrate', '만세'] },
+  { emoji: '👋', keywords: ['wave', 'hello', 'bye', '안녕', '인사'] },
+  { emoji: '👌', keywords: ['ok hand', 'perfect', '오케이', '좋아'] },
+  { emoji: '✌️', keywords: ['victory', 'peace', '브이', '평화'] },
+  { emoji: '🤞', keywords: ['fingers crossed', 'luck', 'hope', '행운'] },
+  { emoji: '💪', keywords: ['muscle', 'strong', 'flex', '힘', '화이팅'] },
+  { emoji: '👀', keywords: ['eyes', 'look', 'watching', '눈', '보는중'] },
+  { emoji: '🧠', keywords: ['brain', 'smart', '뇌', '똑똑'] },
+  { emoji: '🔥', keywords: ['fire', 'hot', 'lit', '불', '대박'] },
+  { emoji: '✨', keywords: ['sparkles', 'shiny', 'magic', '반짝'] },
+  { emoji: '⭐', keywords: ['star', 'favorite', '별'] },
+  { emoji: '🌟', keywords: ['glowing star', 'shine', '별', '반짝'] },
+  { emoji: '💯', keywords: ['hundred', 'perfect', 'score', '백점', '완벽'] },
+  { emoji: '✅', keywords: ['check', 'done', 'yes', '완료', '체크'] },
+  { emoji: '❌', keywords: ['cross', 'no', 'wrong', '아니', '틀림'] },
+  { emoji: '❓', keywords: ['question', '물음표', '질문'] },
+  { emoji: '❗', keywords: ['exclamation', 'important', '느낌표', '중요'] },
+  { emoji: '⚠️', keywords: ['warning', 'caution', '경고', '주의'] },
+  { emoji: '💡', keywords: ['idea', 'light bulb', '아이디어', '전구'] },
+  { emoji: '🎉', keywords: ['tada', 'party', 'congrats', '축하', '파티'] },
+  { emoji: '🎊', keywords: ['confetti', 'celebrate', '축하'] },
+  { emoji: '🎁', keywords: ['gift', 'present', '선물'] },
+  { emoji: '🏆', keywords: ['trophy', 'win', 'champion', '트로피', '우승'] },
+  { emoji: '🚀', keywords: ['rocket', 'launch', 'ship', '로켓', '출시'] },
+  { emoji: '💩', keywords: ['poop', '똥'] },
+  { emoji: '🐛', keywords: ['bug', '버그', '벌레'] },
+  { emoji: '🛠️', keywords: ['tools', 'fix', 'build', '도구', '수리'] },
+  { emoji: '📌', keywords: ['pin', 'pushpin', '고정', '핀'] },
+  { emoji: '📎', keywords: ['paperclip', 'attach', '클립', '첨부'] },
+  { emoji: '📝', keywords: ['memo', 'note', 'write', '메모'] },
+  { emoji: '📅', keywords: ['calendar', 'date', '달력', '날짜'] },
+  { emoji: '⏰', keywords: ['alarm', 'clock', 'time', '알람', '시간'] },
+  { emoji: '☕', keywords: ['coffee', 'tea', '커피'] },
+  { emoji: '🍕', keywords: ['pizza', '피자'] },
+  { emoji: '🍺', keywords: ['beer', '맥주'] },
+  { emoji: '🍰', keywords: ['cake', '케이크'] },
+  { emoji: '🐶', keywords: ['dog', 'puppy', '강아지', '개'] },
+  { emoji: '🐱', keywords: ['cat', 'kitten', '고양이'] },
+  { emoji: '🌈', keywords: ['rainbow', '무지개'] },
+  { emoji: '☀️', keywords: ['sun', 'sunny', '해', '맑음'] },
+  { emoji: '🌧️', keywords: ['rain', '비'] },
+  { emoji: '💔', keywords: ['broken heart', '실연', '상심'] },
+  { emoji: '💙', keywords: ['blue heart', '파란 하트'] },
+  { emoji: '💚', keywords: ['green heart', '초록 하트'] },
+  { emoji: '💛', keywords: ['yellow heart', '노란 하트'] },
+  { emoji: '💜', keywords: ['purple heart', '보라 하트'] },
+  { emoji: '🖤', keywords: ['black heart', '검은 하트'] },
+];
+
+/**
+ * 검색어가 이모지 키워드에 포함되는 항목 (빈 검색어면 전체)
+ */
+export function searchEmoji(query: string): EmojiEntry[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return EMOJI_LIST;
+  return EMOJI_LIST.filter(
+    (entry) => entry.emoji === normalized || entry.keywords.some((keyword) => keyword.includes(normalized))
+  );
+}
@@ -0,0 +1,28 @@
+export interface PickFilesOptions {
+  /** input accept 속성 (예: 'image/*') */
+  accept?: string;
+  multiple?: boolean;
+  /** 모바일에서 카메라로 바로 촬영 */
+  capture?: 'user' | 'environment';
+}
+
+/**
+ * 숨겨진 <input type="file">로 파일 선택 창을 열고 선택된 파일을 반환
+ * 사용자가 취소하면 빈 배열 (cancel 이벤트를 지원하지 않는 브라우저에서는 resolve되지 않을 수 있음)
+ */
+export function pickFiles({ accept, multiple = false, capture }: PickFilesOptions = {}): Promise<File[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = multiple;
+    if (accept) input.accept = accept;
+    if (capture) input.setAttribute('capture', capture);
+    
+    input.addEventListener('change', () => {
+      resolve(Array.from(input.files ?? []));
+    }, { once: true });
+    input.addEventListener('cancel', () => resolve([]), { once: true });
+    
+    input.click();
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * 클라이언트에서 만드는 고유 id (UUID v4)
+ * crypto.randomUUID는 보안 컨텍스트에서만 제공되므로 LAN 주소로 띄운 개발 서버 등에서는 getRandomValues로 대체
+ */
+export function createId(): string {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
@@ -0,0 +1,100 @@
+import type { StateStorage } from 'zustand/middleware';
+
+const DB_NAME = 'chat-ui';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyval';
+
+/** 스트리밍처럼 잦은 상태 변경을 한 번의 쓰기로 모으는 지연 시간 (ms) */
+const WRITE_DELAY_MS = 300;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const isSupported = () => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = operation(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const pendingWrites = new Map<string, string>();
+let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const flushWrites = async () => {
+  flushTimeout = null;
+  const writes = [...pendingWrites];
+  pendingWrites.clear();
+
+  await Promise.all(
+    writes.map(([name, value]) =>
+      runRequest('readwrite', (store) => store.put(value, name)).catch((error) => {
+        console.error('Failed to persist state:', error);
+      })
+    )
+  );
+};
+
+if (typeof window !== 'undefined') {
+  // 탭을 닫기 전에 남은 쓰기를 반영
+  window.addEventListener('pagehide', () => {
+    if (pendingWrites.size > 0) flushWrites();
+  });
+}
+
+/**
+ * zustand persist 미들웨어용 IndexedDB 저장소
+ * IndexedDB를 쓸 수 없는 환경(사파리 사생활 보호 모드 등)에서는 저장하지 않음
+ */
+export const indexedDBStorage: StateStorage = {
+  getItem: async (name) => {
+    if (!isSupported()) return null;
+
+    // 아직 쓰이지 않은 값이 있으면 그것이 최신
+    const pending = pendingWrites.get(name);
+    if (pending !== undefined) return pending;
+
+    try {
+      const value = await runRequest<string | undefined>('readonly', (store) => store.get(name));
+      return value ?? null;
+    } catch (error) {
+      console.error('Failed to read persisted state:', error);
+      return null;
+    }
+  },
+
+  setItem: (name, value) => {
+    if (!isSupported()) return;
+
+    pendingWrites.set(name, value);
+    if (!flushTimeout) {
+      flushTimeout = setTimeout(flushWrites, WRITE_DELAY_MS);
+    }
+  },
+
+  removeItem: async (name) => {
+    if (!isSupported()) return;
+
+    pendingWrites.delete(name);
+    await runRequest('readwrite', (store) => store.delete(name));
+  },
+};
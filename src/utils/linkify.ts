@@ -0,0 +1,88 @@
+export type LinkKind = 'url' | 'email' | 'phone';
+
+export interface LinkMatch {
+  kind: LinkKind;
+  /** 원문에서의 [시작, 끝) 위치 */
+  start: number;
+  end: number;
+  text: string;
+  href: string;
+}
+
+/**
+ * 주소, 이메일, 전화번호
+ * 전화번호는 날짜나 일반 숫자와 구분되도록 구분자(공백, -, .)로 나뉜 형태만 찾는다 (예: 010-1234-5678, +82 10 1234 5678)
+ */
+const LINK_PATTERN =
+  /(?<url>\b(?:https?:\/\/|www\.)[^\s<>"'`]+)|(?<email>\b[\w.%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}\b)|(?<phone>(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{4}(?![\w-]))/gi;
+
+/** 문장 끝의 구두점은 주소에 포함하지 않는다 */
+const TRAILING_PUNCTUATION = /[.,!?;:'"]+$/;
+
+/**
+ * 주소 끝의 구두점과 짝이 맞지 않는 닫는 괄호를 뗀다
+ * 예) "(https://example.com/a)" → "https://example.com/a"
+ */
+const trimUrl = (url: string) => {
+  let trimmed = url.replace(TRAILING_PUNCTUATION, '');
+  while (trimmed.endsWith(')') && trimmed.split('(').length < trimmed.split(')').length) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_PUNCTUATION, '');
+  }
+  return trimmed;
+};
+
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:', 'tel:']);
+
+/**
+ * 링크로 열어도 안전한 주소 (javascript: 등은 null)
+ */
+export function toSafeHref(href: string): string | null {
+  try {
+    const url = new URL(href);
+    return SAFE_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 웹 페이지 주소만 (미리보기, 이미지) */
+export function toSafeWebUrl(href: string): string | null {
+  const safe = toSafeHref(href);
+  return safe?.startsWith('http') ? safe : null;
+}
+
+const toHref = (kind: LinkKind, text: string) => {
+  switch (kind) {
+    case 'url':
+      return toSafeHref(text.startsWith('www.') ? `https://${text}` : text);
+    case 'email':
+      return `mailto:${text}`;
+    case 'phone':
+      return `tel:${text.replace(/[^\d+]/g, '')}`;
+  }
+};
+
+/**
+ * 텍스트에서 링크로 바꿀 부분을 찾는다 (위치순)
+ */
+export function findLinks(text: string): LinkMatch[] {
+  const links: LinkMatch[] = [];
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const kind: LinkKind = match.groups?.url ? 'url' : match.groups?.email ? 'email' : 'phone';
+    const linkText = kind === 'url' ? trimUrl(match[0]) : match[0];
+    const href = toHref(kind, linkText);
+    if (!href || !linkText) continue;
+
+    const start = match.index ?? 0;
+    links.push({ kind, start, end: start + linkText.length, text: linkText, href });
+  }
+  return links;
+}
+
+/**
+ * 미리보기를 보여줄 주소 (메시지의 첫 웹 주소)
+ */
+export function findPreviewUrl(text: string): string | null {
+  const link = findLinks(text).find((match) => match.kind === 'url');
+  return link ? toSafeWebUrl(link.href) : null;
+}
@@ -0,0 +1,15 @@
+import type { Message } from '../types/chat';
+import type { I18nContextValue } from '../i18n/I18nContext';
+
+/**
+ * 한 줄 미리보기 텍스트. 첨부만 있는 메시지는 첨부 종류로 대신한다
+ */
+export function getMessagePreview(
+  message: Pick<Message, 'content' | 'attachments'>,
+  t: I18nContextValue['t']
+): string {
+  if (message.content || !message.attachments?.length) return message.content;
+  if (message.attachments.some((attachment) => attachment.kind === 'image')) return t('preview.photo');
+  if (message.attachments.some((attachment) => attachment.kind === 'audio')) return t('preview.voice');
+  return t('preview.file');
+}
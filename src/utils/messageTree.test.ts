@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { buildMessageTree, insertAfter, type BranchSelection } from './messageTree';
+import type { Message } from '../types/chat';
+
+const createMessage = (id: string, sender: Message['sender'], seconds: number, parentId?: string | null): Message => ({
+  id,
+  content: id,
+  sender,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, seconds)),
+  ...(parentId !== undefined && { parentId }),
+});
+
+const threadIds = (messages: Message[], selection?: BranchSelection) =>
+  buildMessageTree(messages, selection).thread.map((message) => message.id);
+
+describe('insertAfter', () => {
+  it('moves a message sent while waiting for the reply below the reply', () => {
+    // A를 보내고 응답이 오기 전에 B를 보냈다
+    const messages = [
+      createMessage('a', 'user', 0, null),
+      createMessage('b', 'user', 1, 'a'),
+      createMessage('reply-a', 'assistant', 2),
+    ];
+
+    const { messages: linked, selection } = insertAfter(messages, undefined, 'reply-a', 'a');
+
+    expect(threadIds(linked, selection)).toEqual(['a', 'reply-a', 'b']);
+    expect(buildMessageTree(linked, selection).variants.size).toBe(0);
+  });
+
+  it('appends when nothing follows the message yet', () => {
+    const messages = [createMessage('a', 'user', 0, null), createMessage('reply-a', 'assistant', 1)];
+
+    const { messages: linked, selection } = insertAfter(messages, undefined, 'reply-a', 'a');
+
+    expect(threadIds(linked, selection)).toEqual(['a', 'reply-a']);
+    expect(selection).toBeUndefined();
+  });
+
+  it('keeps the visible branch when the message has other versions', () => {
+    const messages = [
+      createMessage('a', 'user', 0, null),
+      createMessage('old-reply', 'assistant', 1, 'a'),
+      createMessage('b', 'user', 2, 'a'),
+      createMessage('reply-a', 'assistant', 3),
+    ];
+
+    const { messages: linked, selection } = insertAfter(messages, { a: 'b' }, 'reply-a', 'a');
+
+    expect(threadIds(linked, selection)).toEqual(['a', 'reply-a', 'b']);
+    expect(threadIds(linked, { ...selection, a: 'old-reply' })).toEqual(['a', 'old-reply']);
+  });
+
+  it('falls back to timestamp order when the message was deleted', () => {
+    const messages = [createMessage('b', 'user', 1, null), createMessage('reply-a', 'assistant', 2)];
+
+    const { messages: linked, selection } = insertAfter(messages, undefined, 'reply-a', 'a');
+
+    expect(threadIds(linked, selection)).toEqual(['b', 'reply-a']);
+  });
+});
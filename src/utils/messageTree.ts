@@ -0,0 +1,226 @@
+import type { Message } from '../types/chat';
+
+/** 부모 메시지 id → 보고 있는 갈래(자식 메시지 id). 첫 메시지들은 빈 문자열 키 */
+export type BranchSelection = Record<string, string>;
+
+const ROOT_KEY = '';
+
+const NO_SELECTION: BranchSelection = {};
+
+export const getParentKey = (parentId: string | null | undefined) => parentId ?? ROOT_KEY;
+
+const getTime = (message: Message) => new Date(message.timestamp).getTime();
+
+/**
+ * 대화 트리
+ * thread는 지금 보고 있는 갈래를 따라 루트부터 이어지는 메시지들,
+ * variants는 그중 다른 버전이 있는 메시지 id → 같은 부모 아래의 버전들 (시각순, 자신 포함)
+ */
+export interface MessageTree {
+  thread: Message[];
+  variants: Map<string, Message[]>;
+}
+
+/** 트리를 바꾸는 함수의 결과. 갈래 선택도 함께 바뀔 수 있다 */
+export interface TreeUpdate {
+  messages: Message[];
+  selection: BranchSelection | undefined;
+}
+
+/**
+ * 부모별 자식 목록 (메시지 목록 순서 = 시각순)
+ * 부모가 로드되지 않았거나 지워진 메시지는 루트로 본다
+ */
+const groupByParent = (messages: Message[]) => {
+  const ids = new Set(messages.map((message) => message.id));
+  const children = new Map<string, Message[]>();
+  messages.forEach((message) => {
+    const key = message.parentId && ids.has(message.parentId) ? message.parentId : ROOT_KEY;
+    const siblings = children.get(key);
+    if (siblings) {
+      siblings.push(message);
+    } else {
+      children.set(key, [message]);
+    }
+  });
+  return children;
+};
+
+/** 고른 갈래가 없으면 가장 최근 것 */
+const pickChild = (children: Message[], selectedId: string | undefined) =>
+  children.find((child) => child.id === selectedId) ?? children[children.length - 1];
+
+export function buildMessageTree(messages: Message[], selection: BranchSelection = NO_SELECTION): MessageTree {
+  const children = groupByParent(messages);
+  const thread: Message[] = [];
+  const variants = new Map<string, Message[]>();
+  const visited = new Set<string>();
+
+  let key = ROOT_KEY;
+  for (let siblings = children.get(key); siblings; siblings = children.get(key)) {
+    const child = pickChild(siblings, selection[key]);
+    // 잘못 연결된 기록에서도 끝나도록
+    if (visited.has(child.id)) break;
+    visited.add(child.id);
+
+    thread.push(child);
+    if (siblings.length > 1) variants.set(child.id, siblings);
+    key = child.id;
+  }
+
+  return { thread, variants };
+}
+
+export const getThread = (messages: Message[], selection?: BranchSelection) =>
+  buildMessageTree(messages, selection).thread;
+
+/** 이 메시지 뒤로 이어진 메시지가 있는지 */
+export const hasReplies = (messages: Message[], messageId: string) =>
+  messages.some((message) => message.parentId === messageId);
+
+/**
+ * 아직 연결되지 않은(서버에서 받은) 메시지를 순서대로 앞 메시지에 잇는다
+ * 첫 메시지는 parentId 아래에 둔다
+ */
+export function linkMessages(messages: Message[], parentId: string | null = null): Message[] {
+  let previousId = parentId;
+  return messages.map((message) => {
+    const linked = message.parentId === undefined ? { ...message, parentId: previousId } : message;
+    previousId = linked.id;
+    return linked;
+  });
+}
+
+/**
+ * 첫 메시지들을 parentId 아래로 옮긴다 (앞에 이전 기록이 붙을 때)
+ * 첫 메시지 중 보고 있던 갈래도 그대로 보이도록 선택을 옮긴다
+ */
+export function reparentRoots(messages: Message[], selection: BranchSelection | undefined, parentId: string): TreeUpdate {
+  const rootChoice = selection?.[ROOT_KEY];
+  return {
+    messages: messages.map((message) => (message.parentId === null ? { ...message, parentId } : message)),
+    selection: rootChoice
+      ? { ...Object.fromEntries(Object.entries(selection).filter(([key]) => key !== ROOT_KEY)), [parentId]: rootChoice }
+      : selection,
+  };
+}
+
+/**
+ * 목록에 들어 있는 메시지를 보고 있는 스레드의 시각 순서 자리에 잇는다
+ * 늦게 도착해 중간에 들어가면 뒤 메시지를 새 메시지 아래로 옮겨 스레드가 끊기지 않게 한다
+ */
+export function spliceIntoThread(
+  messages: Message[],
+  selection: BranchSelection | undefined,
+  messageId: string
+): TreeUpdate {
+  const message = messages.find((msg) => msg.id === messageId);
+  if (!message) return { messages, selection };
+
+  const thread = getThread(messages.filter((msg) => msg.id !== messageId), selection);
+  const time = getTime(message);
+  let index = thread.length;
+  while (index > 0 && getTime(thread[index - 1]) > time) {
+    index--;
+  }
+  const parentId = thread[index - 1]?.id ?? null;
+  const next = thread[index];
+
+  return {
+    messages: messages.map((msg) => {
+      if (msg.id === messageId) return { ...msg, parentId };
+      return msg.id === next?.id ? { ...msg, parentId: messageId } : msg;
+    }),
+    // 부모에 다른 갈래가 있어도 새 메시지 쪽을 계속 보도록
+    selection: next ? { ...selection, [getParentKey(parentId)]: messageId } : selection,
+  };
+}
+
+/**
+ * 목록에 들어 있는 메시지를 afterId 메시지 바로 뒤에 잇는다 (보낸 메시지에 대한 응답)
+ * 그 사이 afterId 뒤로 이어진 메시지는 새 메시지 아래로 옮겨 같은 자리의 다른 버전이 되지 않게 한다
+ * afterId 메시지가 없으면(삭제됨) 보고 있는 스레드의 시각 순서 자리에 잇는다
+ */
+export function insertAfter(
+  messages: Message[],
+  selection: BranchSelection | undefined,
+  messageId: string,
+  afterId: string
+): TreeUpdate {
+  if (!messages.some((msg) => msg.id === afterId)) {
+    return spliceIntoThread(messages, selection, messageId);
+  }
+
+  const children = messages.filter((msg) => msg.parentId === afterId && msg.id !== messageId);
+  const next = children.length > 0 ? pickChild(children, selection?.[afterId]) : undefined;
+
+  return {
+    messages: messages.map((msg) => {
+      if (msg.id === messageId) return { ...msg, parentId: afterId };
+      return msg.id === next?.id ? { ...msg, parentId: messageId } : msg;
+    }),
+    selection: next ? { ...selection, [afterId]: messageId } : selection,
+  };
+}
+
+/**
+ * 메시지를 트리에서 빼고 그 아래 메시지들은 한 단계 위로 올린다
+ * 보고 있던 갈래는 그대로 보이도록 선택을 옮긴다
+ */
+export function removeFromTree(
+  messages: Message[],
+  selection: BranchSelection | undefined,
+  messageId: string
+): TreeUpdate {
+  const target = messages.find((msg) => msg.id === messageId);
+  if (!target) return { messages, selection };
+
+  const parentId = target.parentId ?? null;
+  const parentKey = getParentKey(parentId);
+  const children = messages.filter((msg) => msg.parentId === messageId);
+  const visibleChild = children.length > 0 ? pickChild(children, selection?.[messageId]) : undefined;
+
+  const nextSelection = Object.fromEntries(
+    Object.entries(selection ?? {}).filter(([key, childId]) => key !== messageId && childId !== messageId)
+  );
+  if (visibleChild && (selection?.[parentKey] ?? messageId) === messageId) {
+    nextSelection[parentKey] = visibleChild.id;
+  }
+
+  return {
+    messages: messages
+      .filter((msg) => msg.id !== messageId)
+      .map((msg) => (msg.parentId === messageId ? { ...msg, parentId } : msg)),
+    selection: nextSelection,
+  };
+}
+
+/**
+ * 메시지가 보이도록 조상들의 갈래를 고른다
+ */
+export function selectPathTo(
+  messages: Message[],
+  selection: BranchSelection | undefined,
+  messageId: string
+): BranchSelection {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const nextSelection = { ...selection };
+  const visited = new Set<string>();
+
+  for (let message = byId.get(messageId); message && !visited.has(message.id); message = byId.get(message.parentId ?? '')) {
+    visited.add(message.id);
+    const parentKey = message.parentId && byId.has(message.parentId) ? message.parentId : ROOT_KEY;
+    nextSelection[parentKey] = message.id;
+  }
+
+  return nextSelection;
+}
+
+/** 서버 id로 바뀐 메시지를 가리키던 선택도 옮긴다 */
+export const renameInSelection = (selection: BranchSelection, fromId: string, toId: string): BranchSelection =>
+  Object.fromEntries(
+    Object.entries(selection).map(([key, childId]) => [
+      key === fromId ? toId : key,
+      childId === fromId ? toId : childId,
+    ])
+  );
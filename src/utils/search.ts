@@ -0,0 +1,72 @@
+/**
+ * 메시지 검색 유틸
+ * - 공백으로 나눈 검색어가 모두 포함된 메시지를 찾는다 (부분 일치라 '날씨'로 '날씨가'도 찾음)
+ * - 초성만 입력한 검색어는 초성으로 비교 (예: 'ㄴㅆ' → '날씨')
+ */
+
+const HANGUL_START = 0xac00;
+const SYLLABLES_PER_CHOSEONG = 588;
+const CHOSEONG = 'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ';
+const CHOSEONG_PATTERN = /^[ㄱ-ㅎ]+$/;
+
+/** [시작, 끝) 위치 */
+export type MatchRange = [number, number];
+
+/**
+ * 한글 음절을 초성으로 바꾼다. 그 외 문자는 그대로 두어 원문과 위치가 일치한다
+ */
+export function toChoseong(text: string): string {
+  return text.replace(/[가-힣]/g, (char) =>
+    CHOSEONG[Math.floor((char.charCodeAt(0) - HANGUL_START) / SYLLABLES_PER_CHOSEONG)]
+  );
+}
+
+/** 조합형 한글(NFD)을 완성형으로 맞추고 소문자로 */
+const normalize = (text: string) => text.normalize('NFC').toLowerCase();
+
+export function parseSearchQuery(query: string): string[] {
+  return normalize(query).split(/\s+/).filter(Boolean);
+}
+
+const findTermRanges = (normalizedText: string, term: string): MatchRange[] => {
+  const haystack = CHOSEONG_PATTERN.test(term) ? toChoseong(normalizedText) : normalizedText;
+  const ranges: MatchRange[] = [];
+
+  let index = haystack.indexOf(term);
+  while (index !== -1) {
+    ranges.push([index, index + term.length]);
+    index = haystack.indexOf(term, index + term.length);
+  }
+  return ranges;
+};
+
+/**
+ * 모든 검색어가 포함되어 있는지
+ */
+export function matchesSearch(text: string, terms: string[]): boolean {
+  if (terms.length === 0) return false;
+  const normalized = normalize(text);
+  return terms.every((term) => findTermRanges(normalized, term).length > 0);
+}
+
+/**
+ * 하이라이트할 위치 (정렬·병합됨)
+ * 정규화로 길이가 바뀐 텍스트는 위치가 어긋나므로 하이라이트하지 않는다
+ */
+export function findHighlightRanges(text: string, terms: string[]): MatchRange[] {
+  const normalized = normalize(text);
+  if (terms.length === 0 || normalized.length !== text.length) return [];
+
+  return terms
+    .flatMap((term) => findTermRanges(normalized, term))
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+      return merged;
+    }, []);
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VoiceRecorder, WAVEFORM_BARS } from './voiceRecorder';
+
+/** 다음 샘플링에서 분석기가 돌려줄 입력 크기 */
+let amplitude = 0;
+
+class FakeMediaRecorder {
+  static isTypeSupported = (type: string) => type === 'audio/webm';
+
+  mimeType: string;
+  state: RecordingState = 'inactive';
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(_stream: MediaStream, options?: MediaRecorderOptions) {
+    this.mimeType = options?.mimeType ?? '';
+  }
+
+  start() {
+    this.state = 'recording';
+  }
+
+  stop() {
+    this.state = 'inactive';
+    this.ondataavailable?.({ data: new Blob(['audio'], { type: this.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+const audioContexts: FakeAudioContext[] = [];
+
+class FakeAudioContext {
+  close = vi.fn(async () => {});
+
+  constructor() {
+    audioContexts.push(this);
+  }
+
+  createAnalyser() {
+    return {
+      fftSize: 0,
+      getFloatTimeDomainData: (samples: Float32Array) => samples.fill(amplitude),
+    };
+  }
+
+  createMediaStreamSource() {
+    return { connect: vi.fn() };
+  }
+}
+
+const createStream = () => {
+  const track = { stop: vi.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  return { stream, track };
+};
+
+describe('VoiceRecorder', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('MediaRecorder', FakeMediaRecorder);
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    now = 0;
+    amplitude = 0;
+    audioContexts.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reports input levels and returns the recording with its duration and waveform', async () => {
+    const { stream, track } = createStream();
+    const recorder = new VoiceRecorder(async () => stream);
+    const onLevel = vi.fn();
+
+    await recorder.start(onLevel);
+    amplitude = 0.1;
+    vi.advanceTimersByTime(100);
+    amplitude = 0.05;
+    vi.advanceTimersByTime(100);
+    now = 2500;
+
+    expect(onLevel.mock.calls.map(([level]) => level)).toEqual([
+      expect.closeTo(0.4),
+      expect.closeTo(0.2),
+    ]);
+
+    const recording = await recorder.stop();
+    expect(recording).not.toBeNull();
+    expect(recording!.duration).toBe(2.5);
+    expect(recording!.mimeType).toBe('audio/webm');
+    expect(recording!.blob.size).toBeGreaterThan(0);
+    expect(recording!.waveform).toHaveLength(WAVEFORM_BARS);
+    expect(Math.max(...recording!.waveform)).toBe(1);
+    expect(track.stop).toHaveBeenCalled();
+    expect(audioContexts[0].close).toHaveBeenCalled();
+  });
+
+  it('releases the microphone when cancelled', async () => {
+    const { stream, track } = createStream();
+    const recorder = new VoiceRecorder(async () => stream);
+    const onLevel = vi.fn();
+
+    await recorder.start(onLevel);
+    recorder.cancel();
+    vi.advanceTimersByTime(500);
+
+    expect(track.stop).toHaveBeenCalled();
+    expect(audioContexts[0].close).toHaveBeenCalled();
+    expect(onLevel).not.toHaveBeenCalled();
+    expect(await recorder.stop()).toBeNull();
+  });
+
+  it('releases the microphone when the recorder cannot be created', async () => {
+    vi.stubGlobal(
+      'MediaRecorder',
+      class extends FakeMediaRecorder {
+        constructor(stream: MediaStream, options?: MediaRecorderOptions) {
+          super(stream, options);
+          throw new DOMException('Unsupported mimeType', 'NotSupportedError');
+        }
+      }
+    );
+    const { stream, track } = createStream();
+    const recorder = new VoiceRecorder(async () => stream);
+
+    await expect(recorder.start()).rejects.toThrow('Unsupported mimeType');
+    expect(track.stop).toHaveBeenCalled();
+    expect(await recorder.stop()).toBeNull();
+  });
+
+  it('releases the microphone and stops recording when audio analysis cannot start', async () => {
+    const recorders: FakeMediaRecorder[] = [];
+    vi.stubGlobal(
+      'MediaRecorder',
+      class extends FakeMediaRecorder {
+        constructor(stream: MediaStream, options?: MediaRecorderOptions) {
+          super(stream, options);
+          recorders.push(this);
+        }
+      }
+    );
+    vi.stubGlobal(
+      'AudioContext',
+      class {
+        constructor() {
+          throw new DOMException('Too many AudioContexts', 'NotSupportedError');
+        }
+      }
+    );
+    const { stream, track } = createStream();
+    const recorder = new VoiceRecorder(async () => stream);
+
+    await expect(recorder.start()).rejects.toThrow('Too many AudioContexts');
+    expect(track.stop).toHaveBeenCalled();
+    expect(recorders[0].state).toBe('inactive');
+  });
+
+  it('returns null when stopped before starting', async () => {
+    expect(await new VoiceRecorder(async () => createStream().stream).stop()).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+/** 녹음할 오디오 입력을 얻는 함수. 테스트에서는 가짜 스트림을 주입한다 */
+export type MediaStreamProvider = () => Promise<MediaStream>;
+
+export const getMicrophoneStream: MediaStreamProvider = () =>
+  navigator.mediaDevices.getUserMedia({ audio: true });
+
+export interface VoiceRecording {
+  blob: Blob;
+  mimeType: string;
+  /** 초 단위 */
+  duration: number;
+  /** 0~1로 정규화된 파형 (WAVEFORM_BARS개) */
+  waveform: number[];
+}
+
+/** 메시지에 표시할 파형 막대 수 */
+export const WAVEFORM_BARS = 40;
+
+/** 브라우저마다 지원하는 형식이 달라 앞에서부터 고른다 (Safari는 mp4) */
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+const LEVEL_SAMPLE_INTERVAL_MS = 100;
+
+/** 말소리의 RMS는 작아서 막대가 보이도록 키운다 */
+const LEVEL_GAIN = 4;
+
+/**
+ * 구간별 최댓값으로 count개로 줄이고 가장 큰 값을 1로 맞춘다
+ */
+function downsampleLevels(levels: number[], count: number): number[] {
+  if (levels.length === 0) return Array(count).fill(0);
+
+  const bars = Array.from({ length: count }, (_, index) => {
+    const start = Math.floor((index * levels.length) / count);
+    const end = Math.max(start + 1, Math.floor(((index + 1) * levels.length) / count));
+    return Math.max(...levels.slice(start, end));
+  });
+  const peak = Math.max(...bars);
+  return peak > 0 ? bars.map((bar) => bar / peak) : bars;
+}
+
+/**
+ * MediaRecorder로 음성을 녹음하면서 입력 크기를 재서 파형을 만든다
+ * 한 번 녹음하고 버리는 객체 (start → stop 또는 cancel)
+ */
+export class VoiceRecorder {
+  private readonly getStream: MediaStreamProvider;
+  private stream: MediaStream | null = null;
+  private recorder: MediaRecorder | null = null;
+  private audioContext: AudioContext | null = null;
+  private levelTimer: ReturnType<typeof setInterval> | undefined;
+  private chunks: Blob[] = [];
+  private levels: number[] = [];
+  private startedAt = 0;
+
+  constructor(getStream: MediaStreamProvider = getMicrophoneStream) {
+    this.getStream = getStream;
+  }
+
+  /** 녹음 시작. onLevel로 현재 입력 크기(0~1)를 주기적으로 알린다 */
+  async start(onLevel?: (level: number) => void): Promise<void> {
+    const stream = await this.getStream();
+    this.stream = stream;
+
+    // 녹음 준비가 실패해도(지원하지 않는 형식, AudioContext 수 제한 등) 마이크는 놓아 준다
+    try {
+      const mimeType = PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) this.chunks.push(event.data);
+      };
+      recorder.start();
+      this.recorder = recorder;
+      this.startedAt = performance.now();
+
+      const audioContext = new AudioContext();
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      this.audioContext = audioContext;
+
+      const samples = new Float32Array(analyser.fftSize);
+      this.levelTimer = setInterval(() => {
+        analyser.getFloatTimeDomainData(samples);
+        const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+        const level = Math.min(1, rms * LEVEL_GAIN);
+        this.levels.push(level);
+        onLevel?.(level);
+      }, LEVEL_SAMPLE_INTERVAL_MS);
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+  }
+
+  /** 녹음을 끝내고 결과를 반환. 시작되지 않았으면 null */
+  async stop(): Promise<VoiceRecording | null> {
+    const recorder = this.recorder;
+    if (!recorder) return null;
+
+    const duration = (performance.now() - this.startedAt) / 1000;
+    // 마지막 dataavailable은 stop 이벤트 전에 온다
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+    recorder.stop();
+    await stopped;
+
+    const recording = {
+      blob: new Blob(this.chunks, { type: recorder.mimeType }),
+      mimeType: recorder.mimeType,
+      duration,
+      waveform: downsampleLevels(this.levels, WAVEFORM_BARS),
+    };
+    this.release();
+    return recording;
+  }
+
+  /** 녹음을 버린다 */
+  cancel(): void {
+    this.release();
+  }
+
+  private release() {
+    if (this.recorder?.state === 'recording') {
+      this.recorder.stop();
+    }
+    clearInterval(this.levelTimer);
+    this.stream?.getTracks().forEach((track) => track.stop());
+    void this.audioContext?.close();
+    this.stream = null;
+    this.recorder = null;
+    this.audioContext = null;
+    this.chunks = [];
+    this.levels = [];
+  }
+}